@@ -1,27 +1,62 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { AzureCliService } from './services/azureCliService';
+import { AzureCliService, AzureCompletionOptions, AzureMergeStrategy, AzureRepoInfo, WorkItemDetails } from './services/azureCliService';
+import { BranchPolicyService } from './services/branchPolicyService';
+import { CodeOwner, CodeOwnersService } from './services/codeOwnersService';
+import { ComposerService, PRComposerInput, PRComposerResult } from './services/composerService';
+import { ConfigurationService } from './services/configurationService';
+import { DescriptionDocumentService, DescriptionDraft } from './services/descriptionDocumentService';
+import { DryRunService } from './services/dryRunService';
+import { GitPlatform, GitRemote, GitService } from './services/gitService';
+import { ExistingPR, PRResponse, PRService } from './services/prService';
+import { PreCheckResult, PreCheckService } from './services/preCheckService';
+import { RepositoryService } from './services/repositoryService';
+import { ReviewerCandidate, ReviewerRecommendationService } from './services/reviewerRecommendationService';
+import { ReviewerRulesService, RuleReviewer } from './services/reviewerRulesService';
+import { StackService } from './services/stackService';
+import { TargetBranchService } from './services/targetBranchService';
+import { TemplateService } from './services/templateService';
+import { TicketService } from './services/ticketService';
+import { TitlePolicyService } from './services/titlePolicyService';
+import { WebhookService } from './services/webhookService';
+import { WorkItemService } from './services/workItemService';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Smart PR Creator extension is now active!');
 
-	// Initialize Azure CLI service
-	const azureCliService = new AzureCliService();
+	// Initialize services
+	const webhookService = new WebhookService();
+	const azureCliService = new AzureCliService(undefined, webhookService);
+	const prService = new PRService(undefined, webhookService);
+	const repositoryService = new RepositoryService(context.workspaceState);
+	const descriptionDocuments = new DescriptionDocumentService();
+	const preCheckOutput = vscode.window.createOutputChannel('Smart PR Creator - Checks');
+	const preCheckService = new PreCheckService(preCheckOutput);
+
+	// Register commands (Source Control menus pass the repository they were invoked from)
+	const createPRCommand = vscode.commands.registerCommand('smart-pr-creator.createPR', async (scmContext?: any) => {
+		await createPullRequest(false, azureCliService, prService, repositoryService, descriptionDocuments, preCheckService, scmContext);
+	});
+
+	const createPRWithAICommand = vscode.commands.registerCommand('smart-pr-creator.createPRWithAI', async (scmContext?: any) => {
+		await createPullRequest(true, azureCliService, prService, repositoryService, descriptionDocuments, preCheckService, scmContext);
+	});
 
-	// Register commands
-	const createPRCommand = vscode.commands.registerCommand('smart-pr-creator.createPR', async () => {
-		await createPullRequest(false, azureCliService);
+	// Dry runs use copies of the services that record what would be pushed, created and posted, sharing tokens and output
+	const createPRDryRunCommand = vscode.commands.registerCommand('smart-pr-creator.createPRDryRun', async (scmContext?: any) => {
+		const dryRun = new DryRunService();
+		await createPullRequest(true, azureCliService.withDryRun(dryRun), prService.withDryRun(dryRun), repositoryService, descriptionDocuments, preCheckService, scmContext);
 	});
 
-	const createPRWithAICommand = vscode.commands.registerCommand('smart-pr-creator.createPRWithAI', async () => {
-		await createPullRequest(true, azureCliService);
+	const createStackedPRsCommand = vscode.commands.registerCommand('smart-pr-creator.createStackedPRs', async (scmContext?: any) => {
+		await createStackedPullRequests(true, azureCliService, prService, repositoryService, preCheckService, scmContext);
 	});
 
-	const analyzeBranchCommand = vscode.commands.registerCommand('smart-pr-creator.analyzeBranch', async () => {
-		await analyzeBranchChanges(azureCliService);
+	const analyzeBranchCommand = vscode.commands.registerCommand('smart-pr-creator.analyzeBranch', async (scmContext?: any) => {
+		await analyzeBranchChanges(azureCliService, repositoryService, scmContext);
 	});
 
 	const checkStatusCommand = vscode.commands.registerCommand('smart-pr-creator.checkAzureStatus', async () => {
@@ -50,8 +85,13 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Add commands to subscriptions
 	context.subscriptions.push(
+		descriptionDocuments.register(),
+		preCheckOutput,
+		webhookService,
 		createPRCommand,
 		createPRWithAICommand,
+		createPRDryRunCommand,
+		createStackedPRsCommand,
 		analyzeBranchCommand,
 		checkStatusCommand,
 		listModelsCommand,
@@ -70,41 +110,41 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(statusBarItem);
 }
 
-async function createPullRequest(useAI: boolean, azureCliService: AzureCliService) {
+async function createPullRequest(
+	useAI: boolean,
+	azureCliService: AzureCliService,
+	prService: PRService,
+	repositoryService: RepositoryService,
+	descriptionDocuments: DescriptionDocumentService,
+	preCheckService: PreCheckService,
+	scmContext?: any
+) {
 	try {
-		// Show progress
-		await vscode.window.withProgress({
+		// Gather everything the composer is prefilled with
+		const prepared = await vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
-			title: `Creating ${useAI ? 'AI-powered ' : ''}pull request...`,
+			title: `Preparing ${useAI ? 'AI-powered ' : ''}pull request${azureCliService.dryRun ? ' (dry run)' : ''}...`,
 			cancellable: true
 		}, async (progress, token) => {
 			
 			progress.report({ increment: 10, message: 'Checking prerequisites...' });
 
 			// Check if we're in a git repository
-			const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-			if (!workspaceFolder) {
-				vscode.window.showErrorMessage('No workspace folder found. Please open a folder with a git repository.');
+			const gitRepository = await repositoryService.resolveRepository(scmContext);
+			if (!gitRepository) {
+				vscode.window.showErrorMessage('No git repository found. Please open a folder with a git repository.');
 				return;
 			}
 
-			const workspacePath = workspaceFolder.uri.fsPath;
-
-			// Validate Azure CLI prerequisites
-			const validation = await azureCliService.validatePrerequisites();
-			if (!validation.success) {
-				vscode.window.showErrorMessage(validation.message);
-				return;
-			}
+			const workspacePath = gitRepository.rootPath;
 
 			progress.report({ increment: 10, message: 'Analyzing repository...' });
 
-			// Parse Azure DevOps repository information
-			const repoInfo = await azureCliService.parseAzureRepoInfo(workspacePath);
-			if (!repoInfo) {
-				vscode.window.showErrorMessage('This does not appear to be an Azure DevOps repository. Please ensure you are in an Azure DevOps git repository.');
+			const repoContext = await resolveRepositoryContext(workspacePath, azureCliService, repositoryService);
+			if (!repoContext) {
 				return;
 			}
+			const { remoteUrl, platform, repoInfo } = repoContext;
 
 			progress.report({ increment: 15, message: 'Getting current branch...' });
 
@@ -140,37 +180,27 @@ async function createPullRequest(useAI: boolean, azureCliService: AzureCliServic
 				} else if (proceed !== 'Continue Anyway') {
 					return;
 				}
-			}
-
-			progress.report({ increment: 15, message: 'Getting target branch...' });
-
-			// Get default branch first
-			const defaultBranch = await azureCliService.getDefaultBranch(workspacePath);
-			
-			// Get target branch
-			const targetBranch = await vscode.window.showQuickPick(
-				[defaultBranch, 'main', 'master', 'develop', 'development', 'dev'].filter((branch, index, self) => self.indexOf(branch) === index),
-				{
-					placeHolder: 'Select target branch',
-					title: 'Choose the target branch for your pull request'
-				}
-			);
-
-			if (!targetBranch) {
-				return; // User cancelled
+				azureCliService.dryRun?.warn('There are uncommitted changes, they would not be part of the pull request');
 			}
 
 			// Check branch status
 			const branchStatus = await azureCliService.getBranchStatus(workspacePath, currentBranch);
 			if (!branchStatus.upToDate && branchStatus.behind > 0) {
 				const proceed = await vscode.window.showWarningMessage(
-					`Your branch is ${branchStatus.behind} commit(s) behind ${targetBranch}. Consider pulling latest changes.`,
+					`Your branch is ${branchStatus.behind} commit(s) behind origin/${currentBranch}. Consider pulling latest changes.`,
 					'Continue Anyway',
 					'Cancel'
 				);
 				if (proceed !== 'Continue Anyway') {
 					return;
 				}
+				azureCliService.dryRun?.warn(`The branch is ${branchStatus.behind} commit(s) behind origin/${currentBranch}, the push would be rejected`);
+			}
+
+			// Run the repository's pre-PR checks, e.g. lint, type check and unit tests
+			const preCheckResults = await runPreChecks(workspacePath, preCheckService, azureCliService, progress, token);
+			if (!preCheckResults) {
+				return;
 			}
 
 			progress.report({ increment: 15, message: 'Gathering commit information...' });
@@ -178,213 +208,1289 @@ async function createPullRequest(useAI: boolean, azureCliService: AzureCliServic
 			// Get recent commits and generate description
 			const commits = await azureCliService.getRecentCommits(workspacePath);
 			const changedFiles = gitStatus.split('\n').filter((line: string) => line.trim().length > 0);
-			
-			progress.report({ increment: 10, message: 'Getting PR details...' });
-
-			// Get PR title
-			const defaultTitle = commits.length > 0 ? 
-				commits[0].replace(/^[a-f0-9]+\s+/, '') : // Remove commit hash
-				`Merge ${currentBranch} into ${targetBranch}`;
-
-			const title = await vscode.window.showInputBox({
-				prompt: 'Enter pull request title',
-				value: defaultTitle,
-				validateInput: (value) => {
-					if (!value || value.trim().length === 0) {
-						return 'Title is required';
-					}
-					if (value.length > 200) {
-						return 'Title is too long (max 200 characters)';
-					}
-					return null;
-				}
+			const targetBranches = await getTargetBranchCandidates(repoContext, currentBranch, azureCliService);
+			const template = await selectPullRequestTemplate(workspacePath);
+
+			progress.report({ increment: 10, message: 'Loading work items...' });
+
+			const configurationService = new ConfigurationService();
+			const resource = vscode.Uri.file(workspacePath);
+			const gitService = new GitService(workspacePath);
+			const baseRef = `${repoContext.baseRemote}/${targetBranches[0]}`;
+			const commitSubjects = commits.map(commit => commit.replace(/^[a-f0-9]+\s+/, ''));
+			const branchFiles = await gitService.getChangedFilesSince(baseRef);
+
+			// Find ticket references in the branch name and every commit the pull request adds
+			const rangeMessages = await gitService.getCommitMessagesSince(baseRef);
+			const ticketService = new TicketService(platform, configurationService.getTicketSettings(resource));
+			const tickets = ticketService.extract(currentBranch, rangeMessages.length > 0 ? rangeMessages : commitSubjects);
+			const { workItems, workItemDetails } = await resolveWorkItems(ticketService.getLinkedWorkItems(tickets), repoContext, azureCliService, prService);
+
+			progress.report({ increment: 15, message: 'Generating description...' });
+
+			// Generate description, filling in the repository's PR template when there is one
+			const generated = await azureCliService.generateAIDescription(commits, changedFiles, useAI, workspacePath, template, workItemDetails);
+
+			progress.report({ increment: 10, message: 'Loading reviewers...' });
+
+			const codeOwners = await new CodeOwnersService().getCodeOwners(workspacePath, platform, branchFiles);
+			const reviewerRules = new ReviewerRulesService(configurationService.getReviewerRules(resource));
+			const resolveReviewerRules = (targetBranch: string, labels: string[]) =>
+				reviewerRules.resolve({ files: branchFiles, targetBranch, labels });
+
+			// Make the title follow "smartPrCreator.titlePolicy", inferring the scope from what the branch changes
+			const titlePolicy = new TitlePolicyService(configurationService.getTitlePolicy(resource));
+			const title = titlePolicy.format(generated.title || `Merge ${currentBranch}`, {
+				sourceBranch: currentBranch,
+				commits: commitSubjects,
+				files: branchFiles,
+				ticketKeys: tickets.map(ticket => ticket.key)
 			});
 
-			if (!title) {
-				return; // User cancelled
+			let reviewers: string[] = [];
+			try {
+				reviewers = repoInfo
+					? await azureCliService.listAvailableReviewers(repoInfo)
+					: await prService.listAvailableReviewers(remoteUrl, platform);
+			} catch (error) {
+				console.log('Could not load reviewers:', error);
 			}
 
-			progress.report({ increment: 10, message: 'Generating description...' });
+			// Rank who wrote and recently changed the code, for repositories without CODEOWNERS as much as with
+			const recommendedReviewers = await new ReviewerRecommendationService().recommend(
+				workspacePath,
+				baseRef,
+				branchFiles.slice(0, configurationService.getMaxFilesToAnalyze(resource)),
+				reviewers
+			);
 
-			// Generate description
-			const description = await azureCliService.generateAIDescription(commits, changedFiles, useAI, workspacePath);
+			// Labels and milestones are only supported by the REST providers
+			const [labels, milestones] = repoInfo ? [[], []] : await Promise.all([
+				prService.listLabels(remoteUrl, platform),
+				prService.listMilestones(remoteUrl, platform)
+			]);
+
+			const input: PRComposerInput = {
+				repositoryName: gitRepository.name,
+				dryRun: !!azureCliService.dryRun,
+				platform,
+				usesAzureCli: !!repoInfo,
+				sourceBranch: currentBranch,
+				targetBranches,
+				title,
+				description: preCheckService.appendResults(
+					ticketService.appendRelatedTickets(generated.description, tickets),
+					preCheckResults
+				),
+				workItems,
+				workItemDetails,
+				reviewers,
+				codeOwners,
+				recommendedReviewers,
+				ruleReviewers: resolveReviewerRules(targetBranches[0], []),
+				labels,
+				milestones,
+				completionDefaults: platform === 'azure-devops'
+					? configurationService.getAzureCompletionDefaults(resource)
+					: {}
+			};
+
+			return { repoContext, currentBranch, changedFiles, titlePolicy, resolveReviewerRules, input };
+		});
 
-			// Ask if user wants to edit the description
-			const editDescription = await vscode.window.showQuickPick(
-				['Use Generated Description', 'Edit Description', 'Enter Custom Description'],
-				{
-					placeHolder: 'Choose how to handle the PR description',
-					title: 'Pull Request Description'
-				}
+		if (!prepared) {
+			return;
+		}
+
+		const { repoContext, currentBranch, changedFiles, titlePolicy, resolveReviewerRules, input } = prepared;
+
+		// Write the title and description in a Markdown editor, then ask for the remaining options
+		if (new ConfigurationService().getDescriptionEditor(vscode.Uri.file(repoContext.workspacePath)) === 'markdown') {
+			await descriptionDocuments.open(
+				{ title: input.title, targetBranch: input.targetBranches[0], description: input.description },
+				currentBranch,
+				draft => submitDescriptionDraft(draft, input, titlePolicy, {
+					...repoContext,
+					useAI,
+					sourceBranch: currentBranch,
+					targetBranch: draft.targetBranch || input.targetBranches[0]
+				}, azureCliService, prService, resolveReviewerRules)
 			);
+			return;
+		}
 
-			let finalDescription = description;
+		await new ComposerService().compose(input, {
+			regenerateSection: (description, heading, targetBranch) => azureCliService.regenerateDescriptionSection(
+				changedFiles,
+				description,
+				heading,
+				currentBranch,
+				targetBranch,
+				repoContext.workspacePath
+			),
+			validateTitle: title => titlePolicy.validate(title),
+			resolveReviewerRules,
+			submit: result => submitComposedPullRequest(result, { ...repoContext, useAI, sourceBranch: currentBranch, targetBranch: result.targetBranch }, azureCliService, prService)
+		});
 
-			if (editDescription === 'Edit Description') {
-				const editedDescription = await vscode.window.showInputBox({
-					prompt: 'Edit the pull request description',
-					value: description,
-					ignoreFocusOut: true
-				});
-				if (editedDescription !== undefined) {
-					finalDescription = editedDescription;
-				}
-			} else if (editDescription === 'Enter Custom Description') {
-				const customDescription = await vscode.window.showInputBox({
-					prompt: 'Enter custom pull request description',
-					placeHolder: 'Describe your changes...',
-					ignoreFocusOut: true
-				});
-				if (customDescription !== undefined) {
-					finalDescription = customDescription;
-				}
+	} catch (error: any) {
+		vscode.window.showErrorMessage(`Failed to create pull request: ${error.message}`);
+		console.error('PR creation error:', error);
+	}
+}
+
+/**
+ * Creates the pull request written in the composer, or updates the open one for the branch.
+ * Returns false when the user backs out, which keeps the composer open.
+ */
+async function submitComposedPullRequest(
+	result: PRComposerResult,
+	prContext: PullRequestContext,
+	azureCliService: AzureCliService,
+	prService: PRService
+): Promise<boolean> {
+	const { workspacePath, remoteUrl, platform, repoInfo, sourceBranch, targetBranch } = prContext;
+
+	// Offer to update an open PR for this branch instead of failing on a duplicate
+	let existingPR: ExistingPR | null = null;
+	try {
+		existingPR = repoInfo
+			? await azureCliService.findActivePullRequest(repoInfo, sourceBranch, targetBranch, workspacePath)
+			: await prService.findExistingPullRequest(remoteUrl, sourceBranch, targetBranch, platform, prContext.sourceRepositoryUrl);
+	} catch (error) {
+		console.log('Could not look up existing pull requests:', error);
+		azureCliService.dryRun?.warn(`Could not check for an existing pull request: ${error}`);
+	}
+
+	if (existingPR) {
+		azureCliService.dryRun?.warn(`Pull request #${existingPR.number} already exists for ${sourceBranch} → ${targetBranch}`);
+		const choice = await vscode.window.showWarningMessage(
+			`Pull request #${existingPR.number} "${existingPR.title}" already exists for ${sourceBranch} → ${targetBranch}. Update it with these details?`,
+			{ modal: true },
+			'Update PR',
+			'Open PR'
+		);
+		if (choice === 'Open PR') {
+			vscode.env.openExternal(vscode.Uri.parse(existingPR.url));
+		}
+		if (choice !== 'Update PR') {
+			return false;
+		}
+
+		const updated = existingPR;
+		const prResult = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Updating pull request #${updated.number}...`,
+			cancellable: false
+		}, async () => {
+			await pushSourceBranch(prContext, azureCliService);
+			return applyPullRequestUpdate(updated, prContext, {
+				title: result.title,
+				description: result.description,
+				reviewers: result.reviewers,
+				publish: updated.isDraft && !result.isDraft
+			}, azureCliService, prService);
+		});
+
+		if (azureCliService.dryRun) {
+			await showDryRunReport(azureCliService.dryRun, result.title);
+		} else {
+			showPullRequestUpdated(prResult);
+		}
+		return true;
+	}
+
+	if (!await runPolicyPreflight(result, prContext, azureCliService, prService)) {
+		return false;
+	}
+
+	const prResult = await vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: 'Creating pull request...',
+		cancellable: false
+	}, async (progress) => {
+		progress.report({ increment: 30, message: 'Pushing branch to remote...' });
+		await pushSourceBranch(prContext, azureCliService);
+
+		progress.report({ increment: 40, message: 'Creating pull request...' });
+		return submitPullRequest(
+			prContext,
+			{
+				title: result.title,
+				description: result.description,
+				sourceBranch,
+				targetBranch,
+				workItems: result.workItems
+			},
+			{
+				isDraft: result.isDraft,
+				reviewers: result.reviewers,
+				requiredReviewers: result.requiredReviewers,
+				labels: result.labels,
+				milestone: result.milestone,
+				squash: result.squash,
+				deleteSourceBranch: result.deleteSourceBranch,
+				completionOptions: result.completionOptions
+			},
+			azureCliService,
+			prService
+		);
+	});
+
+	await transitionWorkItems(result.workItems, prContext, azureCliService, prService);
+
+	if (azureCliService.dryRun) {
+		await showDryRunReport(azureCliService.dryRun, result.title);
+	} else {
+		showPullRequestCreated(prResult, result.title, prContext);
+	}
+	return true;
+}
+
+/**
+ * Runs the repository's pre-PR checks from "smartPrCreator.preChecks". Returns the results to add to the
+ * description, empty unless "addToDescription" is set, or undefined when a failure stops the pull request.
+ */
+async function runPreChecks(
+	workspacePath: string,
+	preCheckService: PreCheckService,
+	azureCliService: AzureCliService,
+	progress: vscode.Progress<{ increment?: number; message?: string }>,
+	token?: vscode.CancellationToken
+): Promise<PreCheckResult[] | undefined> {
+	const preChecks = new ConfigurationService().getPreCheckSettings(vscode.Uri.file(workspacePath));
+	const checks = preChecks.checks || [];
+	const preCheckResults = checks.length > 0
+		? await preCheckService.run(
+			checks,
+			workspacePath,
+			(check, index) => progress.report({ message: `Running check ${index + 1}/${checks.length}: ${check.name}...` }),
+			token
+		)
+		: [];
+	const failedChecks = preCheckResults.filter(result => !result.passed).map(result => result.name);
+	if (failedChecks.length > 0) {
+		if (preChecks.onFailure === 'block') {
+			const choice = await vscode.window.showErrorMessage(
+				`Pre-PR check(s) failed: ${failedChecks.join(', ')}. Fix them before creating the pull request.`,
+				'Show Output'
+			);
+			if (choice === 'Show Output') {
+				preCheckService.showOutput();
+			}
+			return undefined;
+		}
+
+		const choice = await vscode.window.showWarningMessage(
+			`Pre-PR check(s) failed: ${failedChecks.join(', ')}.`,
+			'Continue Anyway',
+			'Show Output'
+		);
+		if (choice !== 'Continue Anyway') {
+			if (choice === 'Show Output') {
+				preCheckService.showOutput();
 			}
+			return undefined;
+		}
+		azureCliService.dryRun?.warn(`Pre-PR check(s) failed: ${failedChecks.join(', ')}`);
+	}
+
+	return preChecks.addToDescription ? preCheckResults : [];
+}
+
+/**
+ * Checks the pull request against the Azure DevOps branch policies of its target and shows the checklist when
+ * it breaks one. Returns false when the user goes back to fix it, or when "block" mode stops a blocking failure.
+ */
+async function runPolicyPreflight(
+	result: Pick<PRComposerResult, 'reviewers' | 'workItems' | 'completionOptions'>,
+	prContext: RepositoryContext & { targetBranch: string },
+	azureCliService: AzureCliService,
+	prService: PRService,
+	files?: string[]
+): Promise<boolean> {
+	const { workspacePath, remoteUrl, platform, repoInfo, baseRemote, targetBranch } = prContext;
+	const mode = new ConfigurationService().getPolicyPreflight(vscode.Uri.file(workspacePath));
+	if (platform !== 'azure-devops' || mode === 'off') {
+		return true;
+	}
+
+	const policies = repoInfo
+		? await azureCliService.getBranchPolicies(repoInfo, targetBranch)
+		: await prService.getAzureDevOpsBranchPolicies(remoteUrl, targetBranch);
+	if (!policies) {
+		azureCliService.dryRun?.warn(`Could not read the branch policies of ${targetBranch}`);
+		return true;
+	}
+
+	const checks = new BranchPolicyService().check(policies, {
+		reviewers: result.reviewers,
+		workItems: result.workItems,
+		files: files ?? await new GitService(workspacePath).getChangedFilesSince(`${baseRemote}/${targetBranch}`),
+		completionOptions: result.completionOptions
+	});
+	const failures = checks.filter(check => check.status === 'fail');
+	failures.forEach(check => azureCliService.dryRun?.warn(`Branch policy "${check.policy}": ${check.message}`));
+	if (failures.length === 0) {
+		return true;
+	}
+
+	const icons = { pass: '✓', fail: '✗', info: 'ℹ' };
+	const checklist = checks
+		.map(check => `${check.status === 'fail' && !check.blocking ? '⚠' : icons[check.status]} ${check.policy}: ${check.message}` +
+			(check.fix ? `\n    Fix: ${check.fix}` : ''))
+		.join('\n');
+
+	if (mode === 'block' && failures.some(check => check.blocking)) {
+		await vscode.window.showErrorMessage(
+			`The pull request breaks the branch policies of ${targetBranch}. Fix them before creating it.`,
+			{ modal: true, detail: checklist }
+		);
+		return false;
+	}
+
+	const choice = await vscode.window.showWarningMessage(
+		`The pull request breaks ${failures.length} branch polic${failures.length === 1 ? 'y' : 'ies'} of ${targetBranch}.`,
+		{ modal: true, detail: checklist },
+		'Create Anyway'
+	);
+	return choice === 'Create Anyway';
+}
+
+/**
+ * Looks up the Azure Boards work items found for the pull request, dropping IDs that do not exist.
+ * The IDs are kept as they are when they cannot be looked up, and on other platforms.
+ */
+async function resolveWorkItems(
+	ids: string[],
+	repoContext: RepositoryContext,
+	azureCliService: AzureCliService,
+	prService: PRService
+): Promise<{ workItems: string[]; workItemDetails: WorkItemDetails[] }> {
+	if (repoContext.platform !== 'azure-devops' || ids.length === 0) {
+		return { workItems: ids, workItemDetails: [] };
+	}
+
+	const workItemDetails = repoContext.repoInfo
+		? await azureCliService.getWorkItemDetails(repoContext.repoInfo, ids)
+		: await prService.getAzureDevOpsWorkItems(repoContext.remoteUrl, ids);
+	if (!workItemDetails) {
+		return { workItems: ids, workItemDetails: [] };
+	}
+
+	const { workItems, missing } = new WorkItemService().filterExisting(ids, workItemDetails);
+	if (missing.length > 0) {
+		const message = `Work item(s) ${missing.map(id => `#${id}`).join(', ')} do not exist or cannot be read and will not be linked`;
+		vscode.window.showWarningMessage(message);
+		azureCliService.dryRun?.warn(message);
+	}
+
+	return { workItems: workItems.map(item => item.id), workItemDetails: workItems };
+}
+
+/**
+ * Moves the linked Azure Boards work items to the state in "smartPrCreator.azureDevOps.workItemState", if set
+ */
+async function transitionWorkItems(
+	workItems: string[],
+	prContext: PullRequestContext,
+	azureCliService: AzureCliService,
+	prService: PRService
+) {
+	const state = new ConfigurationService().getWorkItemState(vscode.Uri.file(prContext.workspacePath));
+	if (!state || prContext.platform !== 'azure-devops' || workItems.length === 0) {
+		return;
+	}
+
+	try {
+		if (prContext.repoInfo) {
+			await azureCliService.setWorkItemState(prContext.repoInfo, workItems, state, prContext.workspacePath);
+		} else {
+			await prService.setAzureDevOpsWorkItemState(prContext.remoteUrl, workItems, state);
+		}
+	} catch (error: any) {
+		vscode.window.showWarningMessage(`Could not move work items to "${state}": ${error.message}`);
+	}
+}
+
+/**
+ * Opens the report of what a dry run would have pushed, created and posted
+ */
+async function showDryRunReport(dryRun: DryRunService, title: string) {
+	const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: dryRun.renderReport(title) });
+	await vscode.window.showTextDocument(document, { preview: false });
+}
+
+/**
+ * Creates the pull request written as a Markdown document, asking for work items and the other options first
+ */
+async function submitDescriptionDraft(
+	draft: DescriptionDraft,
+	detected: Pick<PRComposerInput, 'workItems' | 'workItemDetails' | 'codeOwners' | 'recommendedReviewers'>,
+	titlePolicy: TitlePolicyService,
+	prContext: PullRequestContext,
+	azureCliService: AzureCliService,
+	prService: PRService,
+	resolveReviewerRules: (targetBranch: string, labels: string[]) => RuleReviewer[]
+): Promise<boolean> {
+	const titleError = titlePolicy.validate(draft.title);
+	if (titleError) {
+		vscode.window.showErrorMessage(`Invalid title: ${titleError}`);
+		return false;
+	}
+
+	let workItems: string[] = [];
+	if (detected.workItems.length > 0) {
+		const selected = await vscode.window.showQuickPick(
+			detected.workItems.map(id => {
+				const details = detected.workItemDetails.find(item => item.id === id);
+				return {
+					label: id,
+					description: details ? `${details.type} · ${details.state}` : undefined,
+					detail: details?.title,
+					picked: true
+				};
+			}),
+			{
+				placeHolder: `Found ${detected.workItems.length} work item(s) in the branch name and commits; choose the ones to link`,
+				title: 'Work Items',
+				canPickMany: true
+			}
+		);
+		if (selected === undefined) {
+			return false;
+		}
+		workItems = selected.map(item => item.label);
+	}
+
+	const options = await collectPullRequestOptions(prContext, workItems, draft.title, azureCliService, prService, undefined, detected.codeOwners, detected.recommendedReviewers,
+		labels => resolveReviewerRules(prContext.targetBranch, labels));
+
+	return submitComposedPullRequest({
+		targetBranch: prContext.targetBranch,
+		title: draft.title,
+		description: draft.description,
+		workItems,
+		...options
+	}, prContext, azureCliService, prService);
+}
+
+/**
+ * Pushes the source branch to the head remote, warning rather than failing when the push is rejected
+ */
+async function pushSourceBranch(prContext: PullRequestContext, azureCliService: AzureCliService) {
+	try {
+		await azureCliService.pushBranch(prContext.workspacePath, prContext.sourceBranch, prContext.headRemote);
+	} catch (error: any) {
+		if (!error.message.includes('up-to-date')) {
+			vscode.window.showWarningMessage(`Warning: ${error.message}`);
+		}
+	}
+}
+
+async function showPullRequestCreated(prResult: PRResponse, title: string, repoContext: RepositoryContext) {
+	const { remoteUrl, platform, repoInfo } = repoContext;
+
+	// Show success message
+	const result = await vscode.window.showInformationMessage(
+		`Pull request #${prResult.number} created successfully!`,
+		'Open PR',
+		'Copy URL',
+		'Show in Terminal'
+	);
+
+	if (result === 'Open PR') {
+		vscode.env.openExternal(vscode.Uri.parse(prResult.url));
+	} else if (result === 'Copy URL') {
+		vscode.env.clipboard.writeText(prResult.url);
+		vscode.window.showInformationMessage('PR URL copied to clipboard!');
+	} else if (result === 'Show in Terminal') {
+		const terminal = vscode.window.createTerminal('Smart PR Creator');
+		terminal.show();
+		
+		const repositoryDetails = repoInfo ? `
+   • Organization: ${repoInfo.organization}
+   • Project: ${repoInfo.project}
+   • Repository: ${repoInfo.repository}` : `
+   • Platform: ${platform}
+   • Remote: ${remoteUrl}`;
+
+		// Create a single, nicely formatted output
+		const prInfo = `
+═══════════════════════════════════════════════════════════════
+🎉 Pull Request Created Successfully!
+═══════════════════════════════════════════════════════════════
+
+📋 PR Details:
+   • ID: #${prResult.number}
+   • Title: ${title}
+   • URL: ${prResult.url}
+
+🏢 Repository Info:${repositoryDetails}
+
+═══════════════════════════════════════════════════════════════
+`;
+		terminal.sendText(`echo '${prInfo.replace(/'/g, "'\\''")}'; echo`);
+	}
+}
+
+interface RepositoryContext {
+	workspacePath: string;
+	// Repository the pull request is opened against
+	remoteUrl: string;
+	platform: GitPlatform;
+	repoInfo: AzureRepoInfo | null;
+	// Remote of the repository the pull request is opened against
+	baseRemote: string;
+	// Remote the branch is pushed to, and its URL when it is a fork of remoteUrl
+	headRemote: string;
+	sourceRepositoryUrl?: string;
+}
+
+interface PullRequestContext extends RepositoryContext {
+	useAI: boolean;
+	sourceBranch: string;
+	targetBranch: string;
+}
+
+interface PullRequestDetails {
+	title: string;
+	description: string;
+	sourceBranch: string;
+	targetBranch: string;
+	workItems: string[];
+}
+
+interface PullRequestOptions {
+	isDraft: boolean;
+	reviewers: string[];
+	requiredReviewers: string[];
+	labels: string[];
+	milestone?: number;
+	squash: boolean;
+	deleteSourceBranch: boolean;
+	completionOptions: AzureCompletionOptions;
+}
+
+/**
+ * Lists the branches a pull request can target: the ones inferred from "smartPrCreator.targetBranchRules" first,
+ * then the configured and repository default branches, then the remote branches by how recently they were updated
+ */
+async function getTargetBranchCandidates(repoContext: RepositoryContext, sourceBranch: string, azureCliService: AzureCliService): Promise<string[]> {
+	const { workspacePath } = repoContext;
+	const configurationService = new ConfigurationService();
+	const targetBranchService = new TargetBranchService();
+
+	const remoteBranches = await new GitService(workspacePath).getRemoteBranches(repoContext.baseRemote);
+	const inferred = targetBranchService.inferTargets(
+		sourceBranch,
+		configurationService.getTargetBranchRules(vscode.Uri.file(workspacePath)),
+		remoteBranches
+	);
+	const defaultBranch = await azureCliService.getDefaultBranch(workspacePath);
+
+	return targetBranchService.orderCandidates(sourceBranch, inferred, [configurationService.getDefaultTarget(), defaultBranch], remoteBranches);
+}
+
+async function pickTargetBranch(repoContext: RepositoryContext, sourceBranch: string, azureCliService: AzureCliService): Promise<string | undefined> {
+	return vscode.window.showQuickPick(
+		await getTargetBranchCandidates(repoContext, sourceBranch, azureCliService),
+		{
+			placeHolder: 'Select target branch',
+			title: 'Choose the target branch for your pull request'
+		}
+	);
+}
+
+/**
+ * Finds the repository's PR templates and asks which to use when there are several
+ */
+async function selectPullRequestTemplate(workspacePath: string): Promise<string | undefined> {
+	const templateService = new TemplateService();
+	try {
+		const template = await templateService.pickTemplate(await templateService.findTemplates(workspacePath));
+		return template?.content;
+	} catch (error) {
+		console.error('Failed to read pull request templates:', error);
+		return undefined;
+	}
+}
+
+/**
+ * Works out which platform hosts the workspace repository and, for Azure DevOps, whether the Azure CLI is used
+ */
+async function resolveRepositoryContext(
+	workspacePath: string,
+	azureCliService: AzureCliService,
+	repositoryService: RepositoryService
+): Promise<RepositoryContext | null> {
+	const gitService = new GitService(workspacePath);
+	const repository = await gitService.getRepositoryInfo();
+	if (!repository) {
+		vscode.window.showErrorMessage('No origin remote found. Please ensure you are in a git repository with an origin remote.');
+		return null;
+	}
+
+	// In fork setups the branch is pushed to the fork and the PR opened against the original repository
+	const remotes = await selectForkRemotes(await gitService.getRemotes(), workspacePath, repositoryService);
+	if (!remotes) {
+		return null; // User cancelled
+	}
+	const baseUrl = remotes.base?.url || repository.remoteUrl;
+	const crossRepository = remotes.head !== undefined && remotes.head.url !== baseUrl;
+
+	// Pick the backend from the base remote, falling back to the configured platform
+	const detectedPlatform = remotes.base?.platform || repository.platform;
+	const platform = detectedPlatform !== 'unknown'
+		? detectedPlatform
+		: new ConfigurationService().getPlatform() as GitPlatform;
+
+	// Azure DevOps repositories go through the Azure CLI when it is installed, everything else through the REST APIs.
+	// The CLI cannot open PRs from forks, so those always use the REST API.
+	let repoInfo: AzureRepoInfo | null = null;
+	if (platform === 'azure-devops' && !crossRepository && await azureCliService.checkAzureCliInstalled()) {
+		const validation = await azureCliService.validatePrerequisites();
+		if (!validation.success) {
+			vscode.window.showErrorMessage(validation.message);
+			return null;
+		}
+
+		repoInfo = await azureCliService.parseAzureRepoInfo(workspacePath);
+		if (!repoInfo) {
+			vscode.window.showErrorMessage('This does not appear to be an Azure DevOps repository. Please ensure you are in an Azure DevOps git repository.');
+			return null;
+		}
+	} else if (platform === 'unknown') {
+		vscode.window.showErrorMessage('Could not detect the git hosting platform. Please map the host in "smartPrCreator.hosts" or set "smartPrCreator.platform".');
+		return null;
+	}
+
+	return {
+		workspacePath,
+		remoteUrl: baseUrl,
+		platform,
+		repoInfo,
+		baseRemote: remotes.base?.name || 'origin',
+		headRemote: remotes.head?.name || 'origin',
+		sourceRepositoryUrl: crossRepository ? remotes.head!.url : undefined
+	};
+}
+
+/**
+ * Lets the user choose the base and head repositories when the remotes are forks of each other,
+ * e.g. a fork as "origin" and the original repository as "upstream". The choice is remembered per repository.
+ * Returns null when cancelled.
+ */
+async function selectForkRemotes(
+	remotes: GitRemote[],
+	workspacePath: string,
+	repositoryService: RepositoryService
+): Promise<{ base?: GitRemote; head?: GitRemote } | null> {
+	const candidates = repositoryService.findForkRemotes(remotes);
+	if (candidates.length < 2) {
+		return {};
+	}
 
-			progress.report({ increment: 5, message: 'Getting work items...' });
+	const remembered = repositoryService.getForkRemotes(workspacePath);
+	const rememberedBase = candidates.find(remote => remote.name === remembered?.base);
+	const rememberedHead = candidates.find(remote => remote.name === remembered?.head);
+	if (rememberedBase && rememberedHead) {
+		return { base: rememberedBase, head: rememberedHead };
+	}
+
+	const toItem = (remote: GitRemote) => ({ label: remote.name, description: remote.url, remote });
+	const byPreference = (preferred: string) => (a: GitRemote, b: GitRemote) =>
+		Number(b.name === preferred) - Number(a.name === preferred);
+
+	const base = await vscode.window.showQuickPick(
+		[...candidates].sort(byPreference('upstream')).map(toItem),
+		{
+			placeHolder: 'Select the base repository the pull request is opened against',
+			title: 'Base Repository'
+		}
+	);
+	if (!base) {
+		return null;
+	}
 
-			// Get work items (optional)
-			const workItems = await azureCliService.getWorkItems(workspacePath);
-			let selectedWorkItems: string[] = [];
+	const head = await vscode.window.showQuickPick(
+		[...candidates].sort(byPreference('origin')).map(toItem),
+		{
+			placeHolder: 'Select the head repository your branch is pushed to',
+			title: 'Head Repository'
+		}
+	);
+	if (!head) {
+		return null;
+	}
+
+	await repositoryService.rememberForkRemotes(workspacePath, { base: base.remote.name, head: head.remote.name });
+	return { base: base.remote, head: head.remote };
+}
 
-			if (workItems.length > 0) {
-				const includeWorkItems = await vscode.window.showQuickPick(
-					['Include Work Items', 'Skip Work Items'],
+/**
+ * Asks for the options that apply to every pull request of a run: status, reviewers, labels, milestone and merge options
+ */
+async function collectPullRequestOptions(
+	repoContext: RepositoryContext,
+	workItems: string[],
+	title: string | undefined,
+	azureCliService: AzureCliService,
+	prService: PRService,
+	progress?: vscode.Progress<{ increment?: number; message?: string }>,
+	codeOwners: CodeOwner[] = [],
+	recommendedReviewers: ReviewerCandidate[] = [],
+	resolveReviewerRules: (labels: string[]) => RuleReviewer[] = () => []
+): Promise<PullRequestOptions> {
+	const { workspacePath, remoteUrl, platform, repoInfo } = repoContext;
+
+	// Ask about draft status
+	const isDraft = await vscode.window.showQuickPick(
+		['Ready for Review', 'Create as Draft'],
+		{
+			placeHolder: 'Choose PR status',
+			title: 'Pull Request Status'
+		}
+	);
+
+	// Get reviewers (optional)
+	const ruleReviewers = resolveReviewerRules([]);
+	let selectedReviewers: string[] = [];
+	let requiredReviewers: string[] = [];
+	if (isDraft === 'Ready for Review') {
+		progress?.report({ increment: 3, message: 'Loading reviewers...' });
+		
+		try {
+			const owners = codeOwners.map(owner => owner.name);
+			const listed = [...new Set([
+				...owners,
+				...ruleReviewers.map(ruleReviewer => ruleReviewer.name),
+				...recommendedReviewers.map(candidate => candidate.reviewer)
+			])];
+			const availableReviewers = [...listed, ...(repoInfo
+				? await azureCliService.listAvailableReviewers(repoInfo)
+				: await prService.listAvailableReviewers(remoteUrl, platform)
+			).filter(reviewer => !listed.includes(reviewer))];
+			if (availableReviewers.length > 0) {
+				const addReviewers = await vscode.window.showQuickPick(
+					['Add Reviewers', 'Skip Reviewers'],
 					{
-						placeHolder: `Found ${workItems.length} work item(s) in commits`,
-						title: 'Work Items'
+						placeHolder: 'Would you like to add reviewers?',
+						title: 'Reviewers'
 					}
 				);
 
-				if (includeWorkItems === 'Include Work Items') {
-					selectedWorkItems = workItems;
+				if (addReviewers === 'Add Reviewers') {
+					// Code owners of the changed files and reviewers from the rules come first and are preselected, then who knows the changed code best
+					const reviewers = await vscode.window.showQuickPick(
+						availableReviewers.map(reviewer => {
+							const owner = codeOwners.find(codeOwner => codeOwner.name === reviewer);
+							const ruleReviewer = ruleReviewers.find(candidate => candidate.name === reviewer);
+							const candidate = owner || ruleReviewer ? undefined : recommendedReviewers.find(recommendation => recommendation.reviewer === reviewer);
+							return {
+								label: reviewer,
+								description: owner
+									? (owner.required ? 'code owner, required' : 'code owner')
+									: ruleReviewer ? (ruleReviewer.required ? 'reviewer rule, required' : 'reviewer rule') : candidate ? 'recommended' : undefined,
+								detail: ruleReviewer?.reason ?? candidate?.reason,
+								picked: !!owner || !!ruleReviewer
+							};
+						}),
+						{
+							placeHolder: 'Select reviewers (use Ctrl/Cmd to select multiple)',
+							title: 'Choose Reviewers',
+							canPickMany: true
+						}
+					);
+					
+					if (reviewers && reviewers.length > 0) {
+						selectedReviewers = reviewers.map(reviewer => reviewer.label);
+					}
+				}
+
+				// Azure DevOps distinguishes required from optional reviewers
+				if (platform === 'azure-devops' && selectedReviewers.length > 0) {
+					const required = await vscode.window.showQuickPick(
+						selectedReviewers.map(reviewer => ({
+							label: reviewer,
+							picked: codeOwners.some(owner => owner.name === reviewer && owner.required)
+								|| ruleReviewers.some(ruleReviewer => ruleReviewer.name === reviewer && ruleReviewer.required)
+						})),
+						{
+							placeHolder: 'Select required reviewers (others are optional)',
+							title: 'Required Reviewers',
+							canPickMany: true
+						}
+					);
+					requiredReviewers = (required || []).map(reviewer => reviewer.label);
 				}
 			}
+		} catch (error) {
+			console.log('Could not load reviewers:', error);
+		}
+	}
 
-			// Ask about draft status
-			const isDraft = await vscode.window.showQuickPick(
-				['Ready for Review', 'Create as Draft'],
+	// Get labels and milestone (optional, REST platforms only)
+	let selectedLabels: string[] = [];
+	let selectedMilestone: number | undefined;
+	if (!repoInfo) {
+		const [availableLabels, availableMilestones] = await Promise.all([
+			prService.listLabels(remoteUrl, platform),
+			prService.listMilestones(remoteUrl, platform)
+		]);
+
+		if (platform === 'azure-devops') {
+			// Azure DevOps labels are free-form tags
+			const labels = await vscode.window.showInputBox({
+				prompt: 'Enter labels separated by commas (optional)',
+				placeHolder: 'e.g., bug, needs-review'
+			});
+			selectedLabels = (labels || '').split(',').map(label => label.trim()).filter(label => label);
+		} else if (availableLabels.length > 0) {
+			const labels = await vscode.window.showQuickPick(
+				availableLabels,
 				{
-					placeHolder: 'Choose PR status',
-					title: 'Pull Request Status'
+					placeHolder: 'Select labels (press Escape to skip)',
+					title: 'Labels',
+					canPickMany: true
 				}
 			);
+			selectedLabels = labels || [];
+		}
 
-			// Get reviewers (optional)
-			let selectedReviewers: string[] = [];
-			if (isDraft === 'Ready for Review') {
-				progress.report({ increment: 3, message: 'Loading reviewers...' });
-				
-				try {
-					const availableReviewers = await azureCliService.listAvailableReviewers(repoInfo);
-					if (availableReviewers.length > 0) {
-						const addReviewers = await vscode.window.showQuickPick(
-							['Add Reviewers', 'Skip Reviewers'],
-							{
-								placeHolder: 'Would you like to add reviewers?',
-								title: 'Reviewers'
-							}
-						);
+		if (availableMilestones.length > 0) {
+			const milestone = await vscode.window.showQuickPick(
+				[
+					{ label: 'No Milestone', milestone: undefined },
+					...availableMilestones.map(m => ({ label: m.title, milestone: m.number }))
+				],
+				{
+					placeHolder: 'Select a milestone',
+					title: 'Milestone'
+				}
+			);
+			selectedMilestone = milestone?.milestone;
+		}
+	}
 
-						if (addReviewers === 'Add Reviewers') {
-							const reviewers = await vscode.window.showQuickPick(
-								availableReviewers,
-								{
-									placeHolder: 'Select reviewers (use Ctrl/Cmd to select multiple)',
-									title: 'Choose Reviewers',
-									canPickMany: true
-								}
-							);
-							
-							if (reviewers && reviewers.length > 0) {
-								selectedReviewers = reviewers;
-							}
-						}
-					}
-				} catch (error) {
-					console.log('Could not load reviewers:', error);
+	// Label rules can only be applied once the labels are chosen; offer the reviewers they add for confirmation
+	if (isDraft === 'Ready for Review' && selectedLabels.length > 0) {
+		const labelReviewers = resolveReviewerRules(selectedLabels).filter(ruleReviewer =>
+			!selectedReviewers.includes(ruleReviewer.name) && !ruleReviewers.some(initial => initial.name === ruleReviewer.name)
+		);
+		if (labelReviewers.length > 0) {
+			const added = await vscode.window.showQuickPick(
+				labelReviewers.map(ruleReviewer => ({
+					label: ruleReviewer.name,
+					description: ruleReviewer.required ? 'required' : undefined,
+					detail: ruleReviewer.reason,
+					picked: true
+				})),
+				{
+					placeHolder: 'Reviewer rules for the selected labels add these reviewers',
+					title: 'Reviewers from Labels',
+					canPickMany: true
 				}
+			);
+			for (const reviewer of added || []) {
+				selectedReviewers.push(reviewer.label);
+				if (platform === 'azure-devops' && reviewer.description === 'required') {
+					requiredReviewers.push(reviewer.label);
+				}
+			}
+		}
+	}
+
+	// Get merge options (applied by GitLab and Bitbucket when the PR is merged)
+	let squash = false;
+	let deleteSourceBranch = false;
+	if (platform === 'gitlab' || platform === 'bitbucket') {
+		const mergeOptions = await vscode.window.showQuickPick(
+			[
+				...(platform === 'gitlab' ? [{ label: 'Squash commits', value: 'squash' }] : []),
+				{ label: 'Delete source branch', value: 'deleteSourceBranch', picked: true }
+			],
+			{
+				placeHolder: 'Select merge options',
+				title: 'Merge Options',
+				canPickMany: true
 			}
+		);
+		squash = mergeOptions?.some(option => option.value === 'squash') || false;
+		deleteSourceBranch = mergeOptions?.some(option => option.value === 'deleteSourceBranch') || false;
+	}
 
-			progress.report({ increment: 5, message: 'Pushing branch to remote...' });
+	// Get completion options (Azure DevOps), preselected from the repository's defaults
+	let completionOptions: AzureCompletionOptions = {};
+	if (platform === 'azure-devops') {
+		const defaults = new ConfigurationService().getAzureCompletionDefaults(vscode.Uri.file(workspacePath));
+		const strategies: { label: string; value: AzureMergeStrategy }[] = [
+			{ label: 'Merge (no fast-forward)', value: 'merge' },
+			{ label: 'Squash commit', value: 'squash' },
+			{ label: 'Rebase and fast-forward', value: 'rebase' },
+			{ label: 'Semi-linear merge', value: 'semi-linear' }
+		];
+		const defaultStrategy = strategies.find(strategy => strategy.value === defaults.mergeStrategy);
 
-			// Push the branch if needed
-			try {
-				await azureCliService.pushBranch(workspacePath, currentBranch);
-			} catch (error: any) {
-				if (!error.message.includes('up-to-date')) {
-					vscode.window.showWarningMessage(`Warning: ${error.message}`);
-				}
+		const mergeStrategy = await vscode.window.showQuickPick(
+			defaultStrategy
+				? [{ ...defaultStrategy, description: 'default' }, ...strategies.filter(strategy => strategy !== defaultStrategy)]
+				: strategies,
+			{
+				placeHolder: 'Select the merge strategy',
+				title: 'Merge Strategy'
 			}
+		);
 
-			progress.report({ increment: 5, message: 'Creating pull request...' });
+		const options = await vscode.window.showQuickPick(
+			[
+				...(isDraft !== 'Create as Draft' ? [{ label: 'Set auto-complete', value: 'autoComplete', picked: defaults.autoComplete ?? false }] : []),
+				{ label: 'Delete source branch', value: 'deleteSourceBranch', picked: defaults.deleteSourceBranch ?? false },
+				...(workItems.length > 0 ? [{ label: 'Complete linked work items', value: 'transitionWorkItems', picked: defaults.transitionWorkItems ?? false }] : [])
+			],
+			{
+				placeHolder: 'Select completion options',
+				title: 'Completion Options',
+				canPickMany: true
+			}
+		);
 
-			// Create the pull request
-			const prResult = await azureCliService.createPullRequest(
-				repoInfo,
-				{
-					title: title.trim(),
-					description: finalDescription,
-					sourceBranch: currentBranch,
-					targetBranch,
-					workItems: selectedWorkItems,
-					reviewers: selectedReviewers,
-					isDraft: isDraft === 'Create as Draft'
-				},
-				workspacePath
-			);
+		completionOptions = {
+			mergeStrategy: mergeStrategy?.value ?? defaults.mergeStrategy,
+			autoComplete: options?.some(option => option.value === 'autoComplete') || false,
+			deleteSourceBranch: options?.some(option => option.value === 'deleteSourceBranch') || false,
+			transitionWorkItems: options?.some(option => option.value === 'transitionWorkItems') || false
+		};
 
-			progress.report({ increment: 5, message: 'Complete!' });
+		// The merge commit message is only used when the PR completes automatically
+		if (completionOptions.autoComplete && completionOptions.mergeStrategy !== 'rebase') {
+			const mergeCommitMessage = title === undefined ? defaults.mergeCommitMessage : await vscode.window.showInputBox({
+				prompt: 'Merge commit message (optional)',
+				value: defaults.mergeCommitMessage || title
+			});
+			completionOptions.mergeCommitMessage = mergeCommitMessage || undefined;
+		}
+	}
 
-			// Show success message
-			const result = await vscode.window.showInformationMessage(
-				`Pull request #${prResult.pullRequestId} created successfully!`,
-				'Open PR',
-				'Copy URL',
-				'Show in Terminal'
+	return {
+		isDraft: isDraft === 'Create as Draft',
+		reviewers: selectedReviewers,
+		requiredReviewers,
+		labels: selectedLabels,
+		milestone: selectedMilestone,
+		squash,
+		deleteSourceBranch,
+		completionOptions
+	};
+}
+
+/**
+ * Creates the pull request through the Azure CLI or the platform's REST API
+ */
+async function submitPullRequest(
+	repoContext: RepositoryContext,
+	details: PullRequestDetails,
+	options: PullRequestOptions,
+	azureCliService: AzureCliService,
+	prService: PRService
+): Promise<PRResponse> {
+	const { workspacePath, remoteUrl, platform, repoInfo } = repoContext;
+
+	if (repoInfo) {
+		const azureResult = await azureCliService.createPullRequest(
+			repoInfo,
+			{
+				title: details.title,
+				description: details.description,
+				sourceBranch: details.sourceBranch,
+				targetBranch: details.targetBranch,
+				workItems: details.workItems,
+				reviewers: options.reviewers,
+				requiredReviewers: options.requiredReviewers,
+				isDraft: options.isDraft,
+				...options.completionOptions
+			},
+			workspacePath
+		);
+		return { id: azureResult.pullRequestId, number: azureResult.pullRequestId, url: azureResult.url };
+	}
+
+	return prService.createPullRequest(
+		{
+			title: details.title,
+			description: details.description,
+			sourceBranch: details.sourceBranch,
+			targetBranch: details.targetBranch,
+			repositoryUrl: remoteUrl,
+			sourceRepositoryUrl: repoContext.sourceRepositoryUrl,
+			platform,
+			reviewers: options.reviewers,
+			labels: options.labels,
+			milestone: options.milestone,
+			squash: options.squash,
+			deleteSourceBranch: options.deleteSourceBranch,
+			closesIssues: platform === 'gitlab' ? details.workItems : undefined,
+			workItems: platform === 'azure-devops' ? details.workItems : undefined,
+			requiredReviewers: options.requiredReviewers,
+			isDraft: options.isDraft,
+			...(platform === 'azure-devops' ? options.completionOptions : {})
+		},
+		workspacePath
+	);
+}
+
+/**
+ * Sends an update to an open pull request through the Azure CLI or the platform's REST API
+ */
+async function applyPullRequestUpdate(
+	existingPR: ExistingPR,
+	prContext: PullRequestContext,
+	update: { title: string; description: string; reviewers: string[]; publish: boolean },
+	azureCliService: AzureCliService,
+	prService: PRService
+): Promise<PRResponse> {
+	const { workspacePath, repoInfo } = prContext;
+
+	if (repoInfo) {
+		const azureResult = await azureCliService.updatePullRequest(
+			repoInfo,
+			{
+				pullRequestId: existingPR.number,
+				title: update.title,
+				description: update.description,
+				sourceBranch: prContext.sourceBranch,
+				targetBranch: prContext.targetBranch,
+				reviewers: update.reviewers,
+				publish: update.publish
+			},
+			workspacePath
+		);
+		return { id: azureResult.pullRequestId, number: azureResult.pullRequestId, url: azureResult.url };
+	}
+
+	return prService.updatePullRequest(
+		{
+			number: existingPR.number,
+			title: update.title,
+			description: update.description,
+			sourceBranch: prContext.sourceBranch,
+			targetBranch: prContext.targetBranch,
+			repositoryUrl: prContext.remoteUrl,
+			platform: prContext.platform,
+			isDraft: existingPR.isDraft,
+			publish: update.publish,
+			reviewers: update.reviewers
+		},
+		workspacePath
+	);
+}
+
+async function showPullRequestUpdated(prResult: PRResponse) {
+	const result = await vscode.window.showInformationMessage(
+		`Pull request #${prResult.number} updated successfully!`,
+		'Open PR',
+		'Copy URL'
+	);
+
+	if (result === 'Open PR') {
+		vscode.env.openExternal(vscode.Uri.parse(prResult.url));
+	} else if (result === 'Copy URL') {
+		vscode.env.clipboard.writeText(prResult.url);
+		vscode.window.showInformationMessage('PR URL copied to clipboard!');
+	}
+}
+
+async function createStackedPullRequests(
+	useAI: boolean,
+	azureCliService: AzureCliService,
+	prService: PRService,
+	repositoryService: RepositoryService,
+	preCheckService: PreCheckService,
+	scmContext?: any
+) {
+	try {
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Creating stacked pull requests...',
+			cancellable: true
+		}, async (progress, token) => {
+			const gitRepository = await repositoryService.resolveRepository(scmContext);
+			if (!gitRepository) {
+				vscode.window.showErrorMessage('No git repository found. Please open a folder with a git repository.');
+				return;
+			}
+
+			const workspacePath = gitRepository.rootPath;
+			const repoContext = await resolveRepositoryContext(workspacePath, azureCliService, repositoryService);
+			if (!repoContext) {
+				return;
+			}
+			const { remoteUrl, platform, repoInfo } = repoContext;
+
+			const currentBranch = await azureCliService.getCurrentBranch(workspacePath);
+			const baseBranch = await pickTargetBranch(repoContext, currentBranch, azureCliService);
+			if (!baseBranch) {
+				return; // User cancelled
+			}
+
+			progress.report({ message: 'Detecting branch stack...' });
+
+			const stackService = new StackService();
+			const stack = await stackService.getBranchStack(workspacePath, baseBranch, currentBranch);
+			if (stack.length < 2) {
+				vscode.window.showInformationMessage(`No stacked branches found on top of ${baseBranch}. Use "Create Pull Request" for a single branch.`);
+				return;
+			}
+
+			const proceed = await vscode.window.showInformationMessage(
+				`Create or update ${stack.length} stacked pull requests: ${[baseBranch, ...stack.map(entry => entry.branch)].join(' ← ')}?`,
+				'Continue',
+				'Cancel'
 			);
+			if (proceed !== 'Continue') {
+				return;
+			}
 
-			if (result === 'Open PR') {
-				vscode.env.openExternal(vscode.Uri.parse(prResult.url));
-			} else if (result === 'Copy URL') {
-				vscode.env.clipboard.writeText(prResult.url);
-				vscode.window.showInformationMessage('PR URL copied to clipboard!');
-			} else if (result === 'Show in Terminal') {
-				const terminal = vscode.window.createTerminal('Smart PR Creator');
-				terminal.show();
-				
-				// Create a single, nicely formatted output
-				const prInfo = `
-═══════════════════════════════════════════════════════════════
-🎉 Pull Request Created Successfully!
-═══════════════════════════════════════════════════════════════
+			// The checks run once, on the checked out branch, which can be in the middle of the stack. Their results
+			// hold for it and the branches below it, not for the commits the branches above it add.
+			const preCheckResults = await runPreChecks(workspacePath, preCheckService, azureCliService, progress, token);
+			if (!preCheckResults) {
+				return;
+			}
+			const checkedParts = stack.findIndex(entry => entry.branch === currentBranch) + 1;
 
-📋 PR Details:
-   • ID: #${prResult.pullRequestId}
-   • Title: ${title}
-   • URL: ${prResult.url}
+			// The same options apply to every pull request in the stack
+			const prOptions = await collectPullRequestOptions(repoContext, [], undefined, azureCliService, prService, progress);
+			const template = await selectPullRequestTemplate(workspacePath);
+			const configurationService = new ConfigurationService();
+			const titlePolicy = new TitlePolicyService(configurationService.getTitlePolicy(vscode.Uri.file(workspacePath)));
+			const ticketService = new TicketService(platform, configurationService.getTicketSettings(vscode.Uri.file(workspacePath)));
 
-🏢 Repository Info:
-   • Organization: ${repoInfo.organization}
-   • Project: ${repoInfo.project}
-   • Repository: ${repoInfo.repository}
+			const results: PRResponse[] = [];
+			for (const [index, entry] of stack.entries()) {
+				progress.report({ message: `Part ${index + 1} of ${stack.length}: ${entry.branch}` });
 
-═══════════════════════════════════════════════════════════════
-`;
-				terminal.sendText(`echo '${prInfo.replace(/'/g, "'\\''")}'; echo`);
+				try {
+					await azureCliService.pushBranch(workspacePath, entry.branch, repoContext.headRemote);
+				} catch (error: any) {
+					if (!error.message.includes('up-to-date')) {
+						vscode.window.showWarningMessage(`Warning: ${error.message}`);
+					}
+				}
+
+				// Bottom-up order means the parent's PR number is always known
+				const section = stackService.getStackSection(index + 1, stack.length, results[index - 1]?.number);
+				const existingPR = repoInfo
+					? await azureCliService.findActivePullRequest(repoInfo, entry.branch, entry.parent, workspacePath)
+					: await prService.findExistingPullRequest(remoteUrl, entry.branch, entry.parent, platform, repoContext.sourceRepositoryUrl);
+
+				if (existingPR) {
+					const description = stackService.applyStackSection(existingPR.description, section);
+					if (repoInfo) {
+						const azureResult = await azureCliService.updatePullRequest(
+							repoInfo,
+							{
+								pullRequestId: existingPR.number,
+								title: existingPR.title,
+								description,
+								sourceBranch: entry.branch,
+								targetBranch: entry.parent,
+								reviewers: prOptions.reviewers
+							},
+							workspacePath
+						);
+						results.push({ id: azureResult.pullRequestId, number: azureResult.pullRequestId, url: azureResult.url });
+					} else {
+						results.push(await prService.updatePullRequest(
+							{
+								number: existingPR.number,
+								title: existingPR.title,
+								description,
+								sourceBranch: entry.branch,
+								targetBranch: entry.parent,
+								repositoryUrl: remoteUrl,
+								platform,
+								isDraft: existingPR.isDraft,
+								reviewers: prOptions.reviewers
+							},
+							workspacePath
+						));
+					}
+					continue;
+				}
+
+				// Descriptions are built from the commits the branch adds on top of its parent
+				const commits = await stackService.getStackCommits(workspacePath, entry.parentRef, entry.branch);
+				const changedFiles = await stackService.getStackChangedFiles(workspacePath, entry.parentRef, entry.branch);
+				const commitSubjects = commits.map(commit => commit.replace(/^[a-f0-9]+\s+/, ''));
+				const tickets = ticketService.extract(entry.branch, commitSubjects);
+				const { workItems, workItemDetails } = await resolveWorkItems(ticketService.getLinkedWorkItems(tickets), repoContext, azureCliService, prService);
+				const generated = await azureCliService.generateAIDescription(
+					commits,
+					changedFiles,
+					useAI,
+					workspacePath,
+					template,
+					workItemDetails,
+					{ baseRef: entry.parentRef, sourceBranch: entry.branch, targetBranch: entry.parent }
+				);
+				const title = titlePolicy.format(generated.title || `Merge ${entry.branch} into ${entry.parent}`, {
+					sourceBranch: entry.branch,
+					commits: commitSubjects,
+					files: changedFiles,
+					ticketKeys: tickets.map(ticket => ticket.key)
+				});
+
+				// Each part targets its parent, so its own target's policies apply
+				const policyContext = { ...repoContext, targetBranch: entry.parent };
+				if (!await runPolicyPreflight({ ...prOptions, workItems }, policyContext, azureCliService, prService, changedFiles)) {
+					break;
+				}
+
+				results.push(await submitPullRequest(
+					repoContext,
+					{
+						title,
+						description: stackService.applyStackSection(
+							preCheckService.appendResults(
+								ticketService.appendRelatedTickets(generated.description, tickets),
+								index < checkedParts ? preCheckResults : []
+							),
+							section
+						),
+						sourceBranch: entry.branch,
+						targetBranch: entry.parent,
+						workItems
+					},
+					prOptions,
+					azureCliService,
+					prService
+				));
 			}
-		});
 
+			if (results.length === 0) {
+				return;
+			}
+
+			const result = await vscode.window.showInformationMessage(
+				`${results.length < stack.length ? `Stopped after ${results.length} of ${stack.length} pull requests` : 'Stacked pull requests ready'}: ${results.map(pr => `#${pr.number}`).join(' ← ')}`,
+				'Open Top PR'
+			);
+			if (result === 'Open Top PR') {
+				vscode.env.openExternal(vscode.Uri.parse(results[results.length - 1].url));
+			}
+		});
 	} catch (error: any) {
-		vscode.window.showErrorMessage(`Failed to create pull request: ${error.message}`);
-		console.error('PR creation error:', error);
+		vscode.window.showErrorMessage(`Failed to create stacked pull requests: ${error.message}`);
+		console.error('Stacked PR creation error:', error);
 	}
 }
 
-async function analyzeBranchChanges(azureCliService: AzureCliService) {
+async function analyzeBranchChanges(azureCliService: AzureCliService, repositoryService: RepositoryService, scmContext?: any) {
 	try {
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-		if (!workspaceFolder) {
-			vscode.window.showErrorMessage('No workspace folder found.');
+		const gitRepository = await repositoryService.resolveRepository(scmContext);
+		if (!gitRepository) {
+			vscode.window.showErrorMessage('No git repository found.');
 			return;
 		}
 
@@ -442,7 +1548,7 @@ async function analyzeBranchChanges(azureCliService: AzureCliService) {
 				
 				<div class="section">
 					<h2>📊 Current Status</h2>
-					<p>Workspace: <code>${workspaceFolder.name}</code></p>
+					<p>Repository: <code>${gitRepository.name}</code></p>
 					<p class="feature-coming">🚀 AI-powered analysis coming soon!</p>
 				</div>
 
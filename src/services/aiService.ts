@@ -1,5 +1,10 @@
 import * as vscode from 'vscode';
+import { WorkItemDetails } from './azureCliService';
+import { DryRunService } from './dryRunService';
 import { GitChange, GitCommit } from './gitService';
+import { TemplateService } from './templateService';
+import { TitleContext, TitlePolicy, TitlePolicyService } from './titlePolicyService';
+import { WorkItemService } from './workItemService';
 
 export interface PRDescription {
     title: string;
@@ -42,14 +47,20 @@ export class AIService {
     private model: string = 'gpt-4o';
     private apiKey?: string;
     private baseUrl?: string;
-
-    constructor() {
+    private titlePolicy: TitlePolicyService = new TitlePolicyService('free');
+    private workItemService = new WorkItemService();
+
+    /**
+     * @param resource Repository whose folder-level settings (provider, model, keys) apply
+     * @param dryRun When given, the prompts sent to the model are recorded for the dry-run report
+     */
+    constructor(private readonly resource?: vscode.Uri, private readonly dryRun?: DryRunService) {
         this.loadConfiguration();
     }
 
     private loadConfiguration() {
         try {
-            const config = vscode.workspace.getConfiguration('smartPrCreator');
+            const config = vscode.workspace.getConfiguration('smartPrCreator', this.resource);
             this.provider = config.get<string>('aiProvider') || 'copilot';
             const configuredModel = config.get<string>('aiModel') || 'auto';
             
@@ -62,6 +73,7 @@ export class AIService {
             
             this.apiKey = config.get<string>('aiApiKey');
             this.baseUrl = config.get<string>('aiBaseUrl');
+            this.titlePolicy = new TitlePolicyService(config.get<TitlePolicy>('titlePolicy') || 'free');
         } catch (error) {
             // Fallback for test environment
             console.log('Configuration not available, using default provider');
@@ -83,11 +95,19 @@ export class AIService {
             default:
                 return 'gpt-4o';
         }
-    }    async generatePRDescription(
+    }
+
+    /**
+     * @param template Repository PR template whose sections the description should fill in
+     * @param workItems Work items linked to the pull request, described to the model as context
+     */
+    async generatePRDescription(
         changes: GitChange[],
         commits: GitCommit[],
         sourceBranch: string,
-        targetBranch: string
+        targetBranch: string,
+        template?: string,
+        workItems: WorkItemDetails[] = []
     ): Promise<PRDescription> {
         try {
             let result: PRDescription | null = null;
@@ -95,33 +115,38 @@ export class AIService {
             // Try different AI providers based on configuration
             switch (this.provider) {
                 case 'copilot':
-                    result = await this.generateWithCopilot(changes, commits, sourceBranch, targetBranch);
+                    result = await this.generateWithCopilot(changes, commits, sourceBranch, targetBranch, template, workItems);
                     break;
                 case 'anthropic':
-                    result = await this.generateWithAnthropic(changes, commits, sourceBranch, targetBranch);
+                    result = await this.generateWithAnthropic(changes, commits, sourceBranch, targetBranch, template, workItems);
                     break;
                 case 'openai':
-                    result = await this.generateWithOpenAI(changes, commits, sourceBranch, targetBranch);
+                    result = await this.generateWithOpenAI(changes, commits, sourceBranch, targetBranch, template, workItems);
                     break;
                 case 'azure-openai':
-                    result = await this.generateWithAzureOpenAI(changes, commits, sourceBranch, targetBranch);
+                    result = await this.generateWithAzureOpenAI(changes, commits, sourceBranch, targetBranch, template, workItems);
                     break;
                 default:
                     console.warn(`Unknown AI provider: ${this.provider}, falling back to Copilot`);
-                    result = await this.generateWithCopilot(changes, commits, sourceBranch, targetBranch);
+                    result = await this.generateWithCopilot(changes, commits, sourceBranch, targetBranch, template, workItems);
             }
 
             // If the primary provider fails, try fallback to Copilot if it's not already being used
             if (!result && this.provider !== 'copilot') {
                 console.log(`${this.provider} failed, trying Copilot as fallback`);
-                result = await this.generateWithCopilot(changes, commits, sourceBranch, targetBranch);
+                result = await this.generateWithCopilot(changes, commits, sourceBranch, targetBranch, template, workItems);
             }
 
-            // Final fallback to basic description
-            return result || this.generateFallbackDescription(changes, commits, sourceBranch, targetBranch);
+            if (!result) {
+                // Final fallback to basic description
+                return this.generateFallbackDescription(changes, commits, sourceBranch, targetBranch, template);
+            }
+
+            // Models do not always follow the title instructions
+            return { ...result, title: this.titlePolicy.format(result.title, this.getTitleContext(changes, commits, sourceBranch)) };
         } catch (error) {
             console.error('Error generating PR description:', error);
-            return this.generateFallbackDescription(changes, commits, sourceBranch, targetBranch);
+            return this.generateFallbackDescription(changes, commits, sourceBranch, targetBranch, template);
         }
     }
 
@@ -129,10 +154,12 @@ export class AIService {
         changes: GitChange[],
         commits: GitCommit[],
         sourceBranch: string,
-        targetBranch: string
+        targetBranch: string,
+        template?: string,
+        workItems: WorkItemDetails[] = []
     ): Promise<PRDescription | null> {
         // Use the new advanced method with model selection
-        return this.generateWithCopilotAdvanced(changes, commits, sourceBranch, targetBranch);
+        return this.generateWithCopilotAdvanced(changes, commits, sourceBranch, targetBranch, undefined, template, workItems);
     }
 
     private createCopilotPrompt(
@@ -236,6 +263,52 @@ Please generate a clear, professional PR description following the specified for
         };
     }
 
+    /**
+     * Rewrites a single section of a description, keeping the rest of it as context.
+     * Returns the new section body, or null when no language model is available.
+     */
+    async regenerateSection(
+        changes: GitChange[],
+        commits: GitCommit[],
+        sourceBranch: string,
+        targetBranch: string,
+        description: string,
+        heading: string
+    ): Promise<string | null> {
+        const model = await this.selectBestModel();
+        if (!model) {
+            return null;
+        }
+
+        const filesSummary = changes.slice(0, 30).map(change => `- ${change.file} (${change.status})`).join('\n');
+        const commitsSummary = commits.slice(0, 15).map(commit => `- ${commit.hash.substring(0, 7)}: ${commit.message}`).join('\n');
+
+        const prompt = `You are helping to write the description of a pull request that merges "${sourceBranch}" into "${targetBranch}".
+
+Rewrite only the content of the section headed "${heading}". Reply with the Markdown for that section's body, without the heading itself and without any other sections. Keep checklist items ("- [ ]") that are already there.
+
+**Current description:**
+${description}
+
+**Recent Commits:**
+${commitsSummary}
+
+**Files Changed:**
+${filesSummary}`;
+
+        this.dryRun?.recordPrompt(`${model.vendor}/${model.family}`, prompt);
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        const chatResponse = await model.sendRequest([vscode.LanguageModelChatMessage.User(prompt)], {}, tokenSource.token);
+
+        let response = '';
+        for await (const fragment of chatResponse.text) {
+            response += fragment;
+        }
+
+        return response.trim() || null;
+    }
+
     async analyzeBranchChanges(
         changes: GitChange[],
         commits: GitCommit[],
@@ -424,9 +497,19 @@ Please provide a comprehensive analysis following the specified format.`;
         changes: GitChange[],
         commits: GitCommit[],
         sourceBranch: string,
-        targetBranch: string
+        targetBranch: string,
+        template?: string
     ): PRDescription {
-        const title = this.generateFallbackTitle(commits, sourceBranch);
+        const title = this.generateFallbackTitle(commits, sourceBranch, changes);
+
+        if (template) {
+            const description = new TemplateService().fillTemplate(
+                template,
+                commits.map(commit => commit.message),
+                changes.map(change => change.file)
+            );
+            return { title, description };
+        }
         
         let description = `Pull request from \`${sourceBranch}\` to \`${targetBranch}\`\n\n`;
         
@@ -462,12 +545,12 @@ Please provide a comprehensive analysis following the specified format.`;
         return { title, description };
     }
 
-    private generateFallbackTitle(commits: GitCommit[], branchName: string): string {
+    private generateFallbackTitle(commits: GitCommit[], branchName: string, changes: GitChange[] = []): string {
         if (commits.length === 0) {
-            return `Merge ${branchName}`;
+            return this.titlePolicy.format(`Merge ${branchName}`, this.getTitleContext(changes, commits, branchName));
         }
         
-        const firstCommit = commits[0].message;
+        const firstCommit = this.titlePolicy.format(commits[0].message, this.getTitleContext(changes, commits, branchName));
         if (firstCommit.length > 50) {
             return firstCommit.substring(0, 47) + '...';
         }
@@ -475,6 +558,22 @@ Please provide a comprehensive analysis following the specified format.`;
         return firstCommit;
     }
 
+    private getTitleContext(changes: GitChange[], commits: GitCommit[], sourceBranch: string): TitleContext {
+        return {
+            sourceBranch,
+            commits: commits.map(commit => commit.message),
+            files: changes.map(change => change.file)
+        };
+    }
+
+    /**
+     * Title rules from "smartPrCreator.titlePolicy" for the prompt, one line ending in a newline or nothing
+     */
+    private getTitleInstructions(changes: GitChange[], commits: GitCommit[], sourceBranch: string): string {
+        const instructions = this.titlePolicy.getPromptInstructions(this.getTitleContext(changes, commits, sourceBranch));
+        return instructions ? `${instructions}\n` : '';
+    }
+
     private analyzeFileTypes(changes: GitChange[]): string[] {
         const typeMap: { [key: string]: string } = {
             '.ts': 'TypeScript',
@@ -728,7 +827,9 @@ Please provide a comprehensive analysis following the specified format.`;
         commits: GitCommit[],
         sourceBranch: string,
         targetBranch: string,
-        modelSelector?: ModelSelector
+        modelSelector?: ModelSelector,
+        template?: string,
+        workItems: WorkItemDetails[] = []
     ): Promise<PRDescription | null> {
         try {
             if (!vscode.lm || !vscode.lm.selectChatModels) {
@@ -747,7 +848,8 @@ Please provide a comprehensive analysis following the specified format.`;
             console.log(`Using model: ${model.name} (${model.vendor}/${model.family})`);
             
             // Prepare the context and prompt
-            const prompt = this.createAdvancedPrompt(changes, commits, sourceBranch, targetBranch, model);
+            const prompt = this.createAdvancedPrompt(changes, commits, sourceBranch, targetBranch, model, template, workItems);
+            this.recordPrompt(`${model.vendor}/${model.family}`, prompt);
             
             // Create a cancellation token
             const tokenSource = new vscode.CancellationTokenSource();
@@ -784,7 +886,9 @@ Please provide a comprehensive analysis following the specified format.`;
         commits: GitCommit[],
         sourceBranch: string,
         targetBranch: string,
-        model: vscode.LanguageModelChat
+        model: vscode.LanguageModelChat,
+        template?: string,
+        workItems: WorkItemDetails[] = []
     ): vscode.LanguageModelChatMessage[] {
         // Prepare file changes summary
         const filesSummary = changes.slice(0, 30).map(change => {
@@ -811,9 +915,9 @@ ${isAdvancedModel ? `As an advanced AI model, please provide detailed analysis i
 
 Follow this format exactly:
 TITLE: [Concise, descriptive title that captures the main purpose]
-
+${this.getTitleInstructions(changes, commits, sourceBranch)}
 DESCRIPTION:
-## Summary
+${template ? this.getTemplateInstructions(template) : `## Summary
 [Brief overview of what this PR accomplishes and why it's needed]
 
 ## Changes Made
@@ -823,7 +927,7 @@ DESCRIPTION:
 [Testing approach, test coverage, or what should be tested during review]
 
 ## Additional Notes
-[Any additional context, breaking changes, migration notes, or important reviewer guidance]
+[Any additional context, breaking changes, migration notes, or important reviewer guidance]`}
 
 Keep the description professional, clear, and focused on helping reviewers understand the changes efficiently.`;
 
@@ -834,7 +938,7 @@ ${commitsSummary}
 
 **Files Changed:**
 ${filesSummary}
-
+${this.getWorkItemsContext(workItems)}
 **Context:**
 - Source Branch: ${sourceBranch}
 - Target Branch: ${targetBranch}
@@ -855,7 +959,9 @@ Please analyze these changes and generate a professional PR description that wil
         changes: GitChange[],
         commits: GitCommit[],
         sourceBranch: string,
-        targetBranch: string
+        targetBranch: string,
+        template?: string,
+        workItems: WorkItemDetails[] = []
     ): Promise<PRDescription | null> {
         // First try to use Claude models via Copilot if available
         try {
@@ -864,7 +970,7 @@ Please analyze these changes and generate a professional PR description that wil
                 family: 'claude-3.5-sonnet'
             };
             
-            const result = await this.generateWithCopilotAdvanced(changes, commits, sourceBranch, targetBranch, claudeSelector);
+            const result = await this.generateWithCopilotAdvanced(changes, commits, sourceBranch, targetBranch, claudeSelector, template, workItems);
             if (result) {
                 return result;
             }
@@ -880,7 +986,8 @@ Please analyze these changes and generate a professional PR description that wil
                 return null;
             }
 
-            const prompt = this.buildPrompt(changes, commits, sourceBranch, targetBranch);
+            const prompt = this.buildPrompt(changes, commits, sourceBranch, targetBranch, template, workItems);
+            this.dryRun?.recordPrompt('anthropic/claude-3-5-sonnet-20241022', prompt);
             
             const response = await fetch('https://api.anthropic.com/v1/messages', {
                 method: 'POST',
@@ -920,7 +1027,9 @@ Please analyze these changes and generate a professional PR description that wil
         changes: GitChange[],
         commits: GitCommit[],
         sourceBranch: string,
-        targetBranch: string
+        targetBranch: string,
+        template?: string,
+        workItems: WorkItemDetails[] = []
     ): Promise<PRDescription | null> {
         try {
             const openaiApiKey = await this.getOpenAIApiKey();
@@ -929,7 +1038,8 @@ Please analyze these changes and generate a professional PR description that wil
                 return null;
             }
 
-            const prompt = this.buildPrompt(changes, commits, sourceBranch, targetBranch);
+            const prompt = this.buildPrompt(changes, commits, sourceBranch, targetBranch, template, workItems);
+            this.dryRun?.recordPrompt('openai/gpt-4o', prompt);
             
             const response = await fetch('https://api.openai.com/v1/chat/completions', {
                 method: 'POST',
@@ -969,7 +1079,9 @@ Please analyze these changes and generate a professional PR description that wil
         changes: GitChange[],
         commits: GitCommit[],
         sourceBranch: string,
-        targetBranch: string
+        targetBranch: string,
+        template?: string,
+        workItems: WorkItemDetails[] = []
     ): Promise<PRDescription | null> {
         try {
             const azureConfig = await this.getAzureOpenAIConfig();
@@ -978,7 +1090,8 @@ Please analyze these changes and generate a professional PR description that wil
                 return null;
             }
 
-            const prompt = this.buildPrompt(changes, commits, sourceBranch, targetBranch);
+            const prompt = this.buildPrompt(changes, commits, sourceBranch, targetBranch, template, workItems);
+            this.dryRun?.recordPrompt(`azure-openai/${azureConfig.deploymentName}`, prompt);
             
             const response = await fetch(`${azureConfig.endpoint}/openai/deployments/${azureConfig.deploymentName}/chat/completions?api-version=2024-02-01`, {
                 method: 'POST',
@@ -1112,8 +1225,48 @@ Please analyze these changes and generate a professional PR description that wil
         return { title, description };
     }
 
+    private recordPrompt(model: string, messages: vscode.LanguageModelChatMessage[]) {
+        this.dryRun?.recordPrompt(model, messages.map(message => message.content
+            .map(part => part instanceof vscode.LanguageModelTextPart ? part.value : '')
+            .join('')).join('\n\n'));
+    }
+
+    /**
+     * Lists the linked work items with their acceptance criteria, as a prompt section ending in a blank line or nothing
+     */
+    private getWorkItemsContext(workItems: WorkItemDetails[]): string {
+        if (workItems.length === 0) {
+            return '';
+        }
+
+        const items = workItems.map(item => {
+            const criteria = item.acceptanceCriteria
+                ? `\n  Acceptance criteria: ${this.workItemService.toPlainText(item.acceptanceCriteria)}`
+                : '';
+            return `- ${item.type} ${item.id}: ${item.title} (${item.state})${criteria}`;
+        });
+
+        return `\n**Linked Work Items:**\n${items.join('\n')}\n\nExplain how the changes address these work items.\n`;
+    }
+
+    /**
+     * Tells the model to fill in the repository's template rather than use its own layout
+     */
+    private getTemplateInstructions(template: string): string {
+        return `Fill in this pull request template. Keep its headings in the same order, write the content for each section under its heading, keep every checklist item ("- [ ]") and only tick the ones the changes clearly satisfy, remove placeholder comments, and do not add sections of your own:
+
+${template.trim()}`;
+    }
+
     // Helper method to build prompt for AI providers
-    private buildPrompt(changes: GitChange[], commits: GitCommit[], sourceBranch: string, targetBranch: string): string {
+    private buildPrompt(
+        changes: GitChange[],
+        commits: GitCommit[],
+        sourceBranch: string,
+        targetBranch: string,
+        template?: string,
+        workItems: WorkItemDetails[] = []
+    ): string {
         const prompt = `As a senior software engineer, analyze these code changes and generate a professional pull request description.
 
 Branch: ${sourceBranch} → ${targetBranch}
@@ -1123,14 +1276,15 @@ ${commits.map(commit => `- ${commit.hash.substring(0, 8)}: ${commit.message} (by
 
 Code Changes Summary:
 ${changes.map(change => `- ${change.file}: ${change.status}${change.insertions ? ` +${change.insertions}` : ''}${change.deletions ? ` -${change.deletions}` : ''}`).join('\n')}
-
+${this.getWorkItemsContext(workItems)}
 Please provide:
 1. A clear, concise title (under 72 characters)
-2. A detailed description with:
+${this.getTitleInstructions(changes, commits, sourceBranch)}${template ? `2. A description that fills in the repository's pull request template:
+${this.getTemplateInstructions(template)}` : `2. A detailed description with:
    - Summary of changes
    - Technical details
    - Testing considerations
-   - Any breaking changes or special notes
+   - Any breaking changes or special notes`}
 
 Format your response as:
 Title: [Your PR title here]
@@ -1,29 +1,95 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { promisify } from 'util';
-import { AIService } from './aiService';
+import { AIService, PRDescription } from './aiService';
+import { BranchPolicy, BranchPolicyService } from './branchPolicyService';
+import { DryRunService } from './dryRunService';
 import { GitChange, GitCommit } from './gitService';
-import { WebhookService, WebhookPayload } from './webhookService';
+import { HostService } from './hostService';
+import { ExistingPR } from './prService';
+import { TemplateService } from './templateService';
+import { WebhookEvent, WebhookService, WebhookPayload } from './webhookService';
 
 const exec = promisify(cp.exec);
 
 export interface AzureRepoInfo {
     organization: string;
+    organizationUrl: string;
     project: string;
     repository: string;
     remoteUrl: string;
 }
 
-export interface AzurePROptions {
+export type AzureMergeStrategy = 'merge' | 'squash' | 'rebase' | 'semi-linear';
+
+/**
+ * How the pull request is completed once all policies pass
+ */
+export interface AzureCompletionOptions {
+    autoComplete?: boolean;
+    mergeStrategy?: AzureMergeStrategy;
+    deleteSourceBranch?: boolean;
+    transitionWorkItems?: boolean;
+    mergeCommitMessage?: string;
+}
+
+export interface AzurePROptions extends AzureCompletionOptions {
     title: string;
     description: string;
     sourceBranch: string;
     targetBranch: string;
     workItems?: string[];
     reviewers?: string[];
+    // Reviewers who have to approve before the pull request can complete; also added when not in reviewers
+    requiredReviewers?: string[];
     isDraft?: boolean;
 }
 
+/**
+ * Maps merge strategies to the GitPullRequestMergeStrategy values of the REST API
+ */
+export const AZURE_MERGE_STRATEGIES: { [strategy in AzureMergeStrategy]: string } = {
+    'merge': 'noFastForward',
+    'squash': 'squash',
+    'rebase': 'rebase',
+    'semi-linear': 'rebaseMerge'
+};
+
+export interface AzurePRUpdateOptions {
+    pullRequestId: number;
+    title: string;
+    description: string;
+    sourceBranch: string;
+    targetBranch: string;
+    reviewers?: string[];
+    publish?: boolean;
+}
+
+/**
+ * An Azure Boards work item as shown when choosing which ones to link
+ */
+export interface WorkItemDetails {
+    id: string;
+    title: string;
+    type: string;
+    state: string;
+    // HTML, as stored by Azure Boards
+    acceptanceCriteria?: string;
+}
+
+/**
+ * The commits a branch adds on top of its target, for describing a branch other than the checked out one
+ */
+export interface BranchRange {
+    // Where the branch starts, e.g. the parent branch of a stacked branch
+    baseRef: string;
+    sourceBranch: string;
+    targetBranch: string;
+}
+
 export interface AzurePRResult {
     pullRequestId: number;
     url: string;
@@ -34,9 +100,20 @@ export class AzureCliService {
     private isLoggedIn: boolean | null = null;
     private webhookService: WebhookService;
 
-    constructor() {
+    /**
+     * @param dryRun When given, commands that push or change pull requests and webhooks are recorded instead of run
+     * @param webhookService Shared webhook service; one is created when not given
+     */
+    constructor(readonly dryRun?: DryRunService, webhookService?: WebhookService) {
         this.checkLoginStatus();
-        this.webhookService = new WebhookService();
+        this.webhookService = webhookService ?? new WebhookService(dryRun);
+    }
+
+    /**
+     * Returns an Azure CLI service that records commands and webhooks for the dry run
+     */
+    withDryRun(dryRun: DryRunService): AzureCliService {
+        return new AzureCliService(dryRun, this.webhookService.withDryRun(dryRun));
     }
 
     async checkAzureCliInstalled(): Promise<boolean> {
@@ -93,9 +170,9 @@ export class AzureCliService {
         }
     }
 
-    async configureDefaults(organization: string, project: string): Promise<void> {
+    async configureDefaults(organizationUrl: string, project: string): Promise<void> {
         try {
-            await exec(`az devops configure --defaults organization=https://dev.azure.com/${organization} project="${project}"`);
+            await exec(`az devops configure --defaults organization=${organizationUrl} project="${project}"`);
         } catch (error) {
             throw new Error(`Failed to configure Azure DevOps defaults: ${error}`);
         }
@@ -107,16 +184,42 @@ export class AzureCliService {
             const { stdout: remoteUrl } = await exec('git remote get-url origin', { cwd: workspaceFolder });
             const cleanUrl = remoteUrl.trim();
 
-            // Parse Azure DevOps URL
+            const hostService = new HostService();
+            if (hostService.detectPlatform(cleanUrl) !== 'azure-devops') {
+                return null;
+            }
+
+            // SSH format: git@ssh.dev.azure.com:v3/organization/project/repository
+            const sshMatch = cleanUrl.match(/ssh\.dev\.azure\.com:v3\/([^\/]+)\/([^\/]+)\/([^\/]+)$/);
+            if (sshMatch) {
+                return {
+                    organization: sshMatch[1],
+                    organizationUrl: `https://dev.azure.com/${sshMatch[1]}`,
+                    project: decodeURIComponent(sshMatch[2]),
+                    repository: sshMatch[3].replace(/\.git$/, ''),
+                    remoteUrl: cleanUrl
+                };
+            }
+
             // Format: https://dev.azure.com/organization/project/_git/repository
             // Or: https://organization@dev.azure.com/organization/project/_git/repository
-            const match = cleanUrl.match(/dev\.azure\.com\/([^\/]+)\/([^\/]+)\/_git\/(.+)/);
+            // Or: https://organization.visualstudio.com/project/_git/repository
+            // Or (Azure DevOps Server): https://server/tfs/Collection/project/_git/repository
+            const match = cleanUrl.match(/^(https?|ssh):\/\/(?:[^@\/]+@)?([^\/]+)((?:\/[^\/]+)*?)\/([^\/]+)\/_git\/([^\/]+)$/);
             
             if (match) {
+                // A mapped host's API URL is the collection URL itself; otherwise the collection is in the remote's path
+                const serverUrl = match[1] === 'ssh' ? `https://${match[2].replace(/:\d+$/, '')}` : `${match[1]}://${match[2]}`;
+                const organizationUrl = hostService.getApiUrl(cleanUrl, serverUrl + match[3]);
+
+                // The organization is the collection segment, or the subdomain for visualstudio.com URLs
+                const organization = match[3].split('/').pop() || match[2].split('.')[0];
+
                 return {
-                    organization: match[1],
-                    project: decodeURIComponent(match[2]),
-                    repository: match[3].replace(/\.git$/, ''),
+                    organization,
+                    organizationUrl,
+                    project: decodeURIComponent(match[4]),
+                    repository: match[5].replace(/\.git$/, ''),
                     remoteUrl: cleanUrl
                 };
             }
@@ -162,48 +265,87 @@ export class AzureCliService {
         workspaceFolder: string
     ): Promise<AzurePRResult> {
         try {
-            // Ensure we're logged in
-            if (!this.isLoggedIn) {
-                const loginSuccess = await this.login();
-                if (!loginSuccess) {
-                    throw new Error('Azure CLI login required');
+            // A dry run only records the commands, which needs no login or defaults
+            if (!this.dryRun) {
+                // Ensure we're logged in
+                if (!this.isLoggedIn) {
+                    const loginSuccess = await this.login();
+                    if (!loginSuccess) {
+                        throw new Error('Azure CLI login required');
+                    }
                 }
-            }
 
-            // Configure defaults
-            await this.configureDefaults(repoInfo.organization, repoInfo.project);
+                // Configure defaults
+                await this.configureDefaults(repoInfo.organizationUrl, repoInfo.project);
+            }
 
             // Build the Azure CLI command
             let command = `az repos pr create`;
             command += ` --source-branch "${options.sourceBranch}"`;
             command += ` --target-branch "${options.targetBranch}"`;
-            command += ` --title "${options.title.replace(/"/g, '\\"')}"`;
-            
-            if (options.description) {
-                command += ` --description "${options.description.replace(/"/g, '\\"')}"`;
-            }
 
             if (options.workItems && options.workItems.length > 0) {
                 command += ` --work-items ${options.workItems.join(' ')}`;
             }
 
-            if (options.reviewers && options.reviewers.length > 0) {
-                command += ` --reviewers ${options.reviewers.join(' ')}`;
+            const requiredReviewers = options.requiredReviewers || [];
+            const reviewers = [...new Set([...(options.reviewers || []), ...requiredReviewers])];
+            if (reviewers.length > 0) {
+                command += ` --reviewers ${reviewers.join(' ')}`;
             }
 
             if (options.isDraft) {
                 command += ` --draft`;
             }
 
+            if (options.autoComplete) {
+                command += ` --auto-complete true`;
+            }
+
+            if (options.mergeStrategy === 'squash') {
+                command += ` --squash true`;
+            }
+
+            if (options.deleteSourceBranch) {
+                command += ` --delete-source-branch true`;
+            }
+
+            if (options.transitionWorkItems) {
+                command += ` --transition-work-items true`;
+            }
+
             // Execute the command
-            const { stdout } = await exec(command, { cwd: workspaceFolder });
+            const stdout = await this.execWriteWithTexts(
+                command,
+                {
+                    title: options.title,
+                    description: options.description || undefined,
+                    'merge-commit-message': options.mergeCommitMessage || undefined
+                },
+                workspaceFolder,
+                JSON.stringify({
+                    pullRequestId: 0,
+                    status: 'active',
+                    reviewers: reviewers.map(name => ({ id: `<id of ${name}>`, displayName: name }))
+                })
+            );
             
             // Parse the response
             const response = JSON.parse(stdout);
+
+            // The CLI can only request squash merges, other strategies are set through the REST API
+            if (options.mergeStrategy === 'rebase' || options.mergeStrategy === 'semi-linear') {
+                await this.setMergeStrategy(repoInfo, response.pullRequestId, options, workspaceFolder);
+            }
+
+            // The CLI adds every reviewer as optional
+            if (requiredReviewers.length > 0) {
+                await this.setRequiredReviewers(repoInfo, response, requiredReviewers, workspaceFolder);
+            }
             
             // Always construct the web page URL instead of using the API URL from response
             // The response.url from Azure CLI is typically an API endpoint, not the web page URL
-            const webPageUrl = `https://dev.azure.com/${repoInfo.organization}/${repoInfo.project}/_git/${repoInfo.repository}/pullrequest/${response.pullRequestId}`;
+            const webPageUrl = `${repoInfo.organizationUrl}/${encodeURIComponent(repoInfo.project)}/_git/${repoInfo.repository}/pullrequest/${response.pullRequestId}`;
             
             const result: AzurePRResult = {
                 pullRequestId: response.pullRequestId,
@@ -212,7 +354,7 @@ export class AzureCliService {
             };
 
             // Send webhook notification
-            await this.sendPRCreatedWebhook(repoInfo, options, result, workspaceFolder);
+            await this.sendPRWebhook('pr_created', repoInfo, options, result, workspaceFolder);
 
             return result;
 
@@ -228,14 +370,210 @@ export class AzureCliService {
         }
     }
 
-    async pushBranch(workspaceFolder: string, branchName: string): Promise<void> {
+    /**
+     * Finds the active pull request from the source branch into the target branch, if there is one
+     */
+    async findActivePullRequest(
+        repoInfo: AzureRepoInfo,
+        sourceBranch: string,
+        targetBranch: string,
+        workspaceFolder: string
+    ): Promise<ExistingPR | null> {
         try {
-            await exec(`git push origin ${branchName}`, { cwd: workspaceFolder });
+            await this.configureDefaults(repoInfo.organizationUrl, repoInfo.project);
+            const { stdout } = await exec(
+                `az repos pr list --repository "${repoInfo.repository}" --source-branch "${sourceBranch}" --target-branch "${targetBranch}" --status active --top 1 -o json`,
+                { cwd: workspaceFolder }
+            );
+
+            const pullRequest = JSON.parse(stdout)[0];
+            return pullRequest ? {
+                id: pullRequest.pullRequestId,
+                number: pullRequest.pullRequestId,
+                url: `${repoInfo.organizationUrl}/${encodeURIComponent(repoInfo.project)}/_git/${repoInfo.repository}/pullrequest/${pullRequest.pullRequestId}`,
+                title: pullRequest.title,
+                description: pullRequest.description || '',
+                isDraft: pullRequest.isDraft || false
+            } : null;
+        } catch (error) {
+            console.error('Error looking up existing pull requests:', error);
+            return null;
+        }
+    }
+
+    async updatePullRequest(
+        repoInfo: AzureRepoInfo,
+        options: AzurePRUpdateOptions,
+        workspaceFolder: string
+    ): Promise<AzurePRResult> {
+        try {
+            await this.configureDefaults(repoInfo.organizationUrl, repoInfo.project);
+
+            let command = `az repos pr update --id ${options.pullRequestId}`;
+
+            if (options.publish) {
+                command += ` --draft false`;
+            }
+
+            const stdout = await this.execWriteWithTexts(
+                command,
+                { title: options.title, description: options.description },
+                workspaceFolder,
+                JSON.stringify({ status: 'active' })
+            );
+            const response = JSON.parse(stdout);
+
+            if (options.reviewers && options.reviewers.length > 0) {
+                await this.execWrite(
+                    `az repos pr reviewer add --id ${options.pullRequestId} --reviewers ${options.reviewers.map(reviewer => `"${reviewer}"`).join(' ')}`,
+                    workspaceFolder
+                );
+            }
+
+            const result: AzurePRResult = {
+                pullRequestId: options.pullRequestId,
+                url: `${repoInfo.organizationUrl}/${encodeURIComponent(repoInfo.project)}/_git/${repoInfo.repository}/pullrequest/${options.pullRequestId}`,
+                status: response.status
+            };
+
+            await this.sendPRWebhook('pr_updated', repoInfo, options, result, workspaceFolder);
+
+            return result;
+        } catch (error: any) {
+            if (error.message.includes('authentication')) {
+                throw new Error('Authentication failed. Please run "az login" and try again.');
+            }
+            throw new Error(`Failed to update pull request: ${error.message}`);
+        }
+    }
+
+    private async setMergeStrategy(
+        repoInfo: AzureRepoInfo,
+        pullRequestId: number,
+        options: AzurePROptions,
+        workspaceFolder: string
+    ): Promise<void> {
+        const body = {
+            completionOptions: {
+                mergeStrategy: AZURE_MERGE_STRATEGIES[options.mergeStrategy!],
+                deleteSourceBranch: options.deleteSourceBranch || false,
+                transitionWorkItems: options.transitionWorkItems || false,
+                mergeCommitMessage: options.mergeCommitMessage
+            }
+        };
+        const command = `az devops invoke --area git --resource pullRequests --http-method PATCH --api-version 7.0` +
+            ` --route-parameters project="${repoInfo.project}" repositoryId="${repoInfo.repository}" pullRequestId=${pullRequestId}`;
+
+        try {
+            await this.execWriteWithBody(command, body, workspaceFolder);
+        } catch (error: any) {
+            vscode.window.showWarningMessage(`Pull request #${pullRequestId} was created, but the merge strategy could not be set: ${error.message}`);
+        }
+    }
+
+    /**
+     * Marks reviewers of a new pull request as required, matching them by display or unique name
+     * among the reviewers the CLI added
+     */
+    private async setRequiredReviewers(
+        repoInfo: AzureRepoInfo,
+        pullRequest: { pullRequestId: number; reviewers?: Array<{ id: string; displayName?: string; uniqueName?: string }> },
+        requiredReviewers: string[],
+        workspaceFolder: string
+    ): Promise<void> {
+        for (const name of requiredReviewers) {
+            const reviewer = pullRequest.reviewers?.find(candidate =>
+                [candidate.displayName, candidate.uniqueName].some(value => value?.toLowerCase() === name.toLowerCase())
+            );
+            const command = `az devops invoke --area git --resource pullRequestReviewers --http-method PUT --api-version 7.0` +
+                ` --route-parameters project="${repoInfo.project}" repositoryId="${repoInfo.repository}"` +
+                ` pullRequestId=${pullRequest.pullRequestId} reviewerId="${reviewer?.id}"`;
+
+            try {
+                if (!reviewer) {
+                    throw new Error('they are not among its reviewers');
+                }
+                await this.execWriteWithBody(command, { vote: 0, isRequired: true }, workspaceFolder);
+            } catch (error: any) {
+                vscode.window.showWarningMessage(`Pull request #${pullRequest.pullRequestId} was created, but ${name} could not be made a required reviewer: ${error.message}`);
+            }
+        }
+    }
+
+    async pushBranch(workspaceFolder: string, branchName: string, remote: string = 'origin'): Promise<void> {
+        try {
+            await this.execWrite(`git push ${remote} ${branchName}`, workspaceFolder);
         } catch (error) {
             throw new Error(`Failed to push branch: ${error}`);
         }
     }
 
+    /**
+     * Runs a command that pushes or changes something remotely; in a dry run it is only recorded
+     * @param dryRunOutput Output returned instead when the command is recorded
+     */
+    private async execWrite(command: string, workspaceFolder: string, dryRunOutput: string = ''): Promise<string> {
+        if (this.dryRun) {
+            this.dryRun.recordCommand(command);
+            return dryRunOutput;
+        }
+
+        const { stdout } = await exec(command, { cwd: workspaceFolder });
+        return stdout;
+    }
+
+    /**
+     * Like execWrite, but passes free-text arguments such as the title as "@file" references the Azure CLI reads
+     * from temporary files, so their quotes, backticks and "$(...)" never reach the shell
+     * @param texts Argument names without the leading "--" mapped to their values; undefined values are left out
+     */
+    private async execWriteWithTexts(
+        command: string,
+        texts: { [argument: string]: string | undefined },
+        workspaceFolder: string,
+        dryRunOutput: string
+    ): Promise<string> {
+        const values = Object.entries(texts).filter((entry): entry is [string, string] => entry[1] !== undefined);
+        const withFiles = (folder: string) => command +
+            values.map(([argument]) => ` --${argument} "@${path.join(folder, `${argument}.txt`)}"`).join('');
+
+        if (this.dryRun) {
+            this.dryRun.recordCommand(withFiles(os.tmpdir()), Object.fromEntries(values));
+            return dryRunOutput;
+        }
+
+        const folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'smart-pr-'));
+        try {
+            await Promise.all(values.map(([argument, text]) => fs.promises.writeFile(path.join(folder, `${argument}.txt`), text)));
+            const { stdout } = await exec(withFiles(folder), { cwd: workspaceFolder });
+            return stdout;
+        } finally {
+            await fs.promises.rm(folder, { recursive: true, force: true }).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Like execWrite, but passes the JSON request body of an "az devops invoke" command through "--in-file",
+     * written to a temporary folder of its own
+     */
+    private async execWriteWithBody(command: string, body: unknown, workspaceFolder: string): Promise<string> {
+        const withFile = (folder: string) => `${command} --in-file "${path.join(folder, 'body.json')}"`;
+
+        if (this.dryRun) {
+            this.dryRun.recordCommand(withFile(os.tmpdir()), body);
+            return '';
+        }
+
+        const folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'smart-pr-'));
+        try {
+            await fs.promises.writeFile(path.join(folder, 'body.json'), JSON.stringify(body));
+            const { stdout } = await exec(withFile(folder), { cwd: workspaceFolder });
+            return stdout;
+        } finally {
+            await fs.promises.rm(folder, { recursive: true, force: true }).catch(() => undefined);
+        }
+    }
+
     /**
      * Generates AI-powered pull request descriptions using GitHub Copilot and other AI models
      * This method now integrates with the real AIService instead of using mock data
@@ -244,34 +582,39 @@ export class AzureCliService {
      * @param changedFiles Array of changed file strings from git status
      * @param useAI Whether to use AI generation or fallback to basic description
      * @param workspaceFolder Optional workspace folder path
-     * @returns Promise<string> Generated PR description
+     * @param template Optional repository PR template to fill in
+     * @param workItems Optional work items whose titles and acceptance criteria are given to the AI
+     * @returns Promise<PRDescription> Generated PR title and description
      */
     async generateAIDescription(
         commits: string[],
         changedFiles: string[],
         useAI: boolean,
-        workspaceFolder?: string
-    ): Promise<string> {
+        workspaceFolder?: string,
+        template?: string,
+        workItems: WorkItemDetails[] = [],
+        range?: BranchRange
+    ): Promise<PRDescription> {
         if (!useAI || commits.length === 0) {
-            return this.generateBasicDescription(commits, changedFiles);
+            return this.generateBasicDescription(commits, changedFiles, template);
         }
 
         try {
-            // Initialize real AI service with multi-model support (GPT-4o, Claude Sonnet, etc.)
-            const aiService = new AIService();
-
             // Get workspace folder if not provided
             const wsFolder = workspaceFolder || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
             if (!wsFolder) {
                 throw new Error('No workspace folder available');
             }
 
+            // Initialize real AI service with multi-model support (GPT-4o, Claude Sonnet, etc.)
+            const aiService = new AIService(vscode.Uri.file(wsFolder), this.dryRun);
+
             // Get enhanced git information
             const [gitCommits, gitChanges, currentBranch, defaultBranch] = await Promise.all([
-                this.getEnhancedCommits(wsFolder),
-                this.getEnhancedChanges(wsFolder, changedFiles),
-                this.getCurrentBranch(wsFolder),
-                this.getDefaultBranch(wsFolder)
+                this.getEnhancedCommits(wsFolder, range),
+                range ? this.getRangeChanges(wsFolder, range) : this.getEnhancedChanges(wsFolder, changedFiles),
+                range ? range.sourceBranch : this.getCurrentBranch(wsFolder),
+                range ? range.targetBranch : this.getDefaultBranch(wsFolder)
             ]);
 
             // Generate AI-powered description
@@ -279,23 +622,53 @@ export class AzureCliService {
                 gitChanges,
                 gitCommits,
                 currentBranch,
-                defaultBranch
+                defaultBranch,
+                template,
+                workItems
             );
 
-            return prDescription.description;
+            return prDescription;
 
         } catch (error) {
             console.error('AI description generation failed:', error);
             vscode.window.showWarningMessage('AI description generation failed, using basic description');
-            return this.generateBasicDescription(commits, changedFiles);
+            return this.generateBasicDescription(commits, changedFiles, template);
         }
     }
 
-    private async getEnhancedCommits(workspaceFolder: string): Promise<GitCommit[]> {
+    /**
+     * Asks the AI to rewrite one section of a PR description
+     * @param heading Heading text of the section to rewrite, without the leading #
+     * @returns The new section body
+     */
+    async regenerateDescriptionSection(
+        changedFiles: string[],
+        description: string,
+        heading: string,
+        sourceBranch: string,
+        targetBranch: string,
+        workspaceFolder: string
+    ): Promise<string> {
+        const aiService = new AIService(vscode.Uri.file(workspaceFolder), this.dryRun);
+        const [gitCommits, gitChanges] = await Promise.all([
+            this.getEnhancedCommits(workspaceFolder),
+            this.getEnhancedChanges(workspaceFolder, changedFiles)
+        ]);
+
+        const section = await aiService.regenerateSection(gitChanges, gitCommits, sourceBranch, targetBranch, description, heading);
+        if (!section) {
+            throw new Error('No AI model is available. Check that GitHub Copilot is installed and signed in.');
+        }
+
+        return section;
+    }
+
+    private async getEnhancedCommits(workspaceFolder: string, range?: BranchRange): Promise<GitCommit[]> {
         try {
             // Get detailed commit information including author and date
+            const revisions = range ? `"${range.baseRef}..${range.sourceBranch}"` : '-10';
             const { stdout } = await exec(
-                'git log --oneline --format="%H|%an|%ad|%s" --date=iso -10',
+                `git log --oneline --format="%H|%an|%ad|%s" --date=iso ${revisions}`,
                 { cwd: workspaceFolder }
             );
             
@@ -398,7 +771,51 @@ export class AzureCliService {
         }
     }
 
-    private generateBasicDescription(commits: string[], changedFiles: string[]): string {
+    /**
+     * Changes between the start of a branch and its tip, with insertion/deletion counts
+     */
+    private async getRangeChanges(workspaceFolder: string, range: BranchRange): Promise<GitChange[]> {
+        const revisions = `"${range.baseRef}...${range.sourceBranch}"`;
+        const [{ stdout: nameStatus }, { stdout: numstat }] = await Promise.all([
+            exec(`git diff --name-status ${revisions}`, { cwd: workspaceFolder }),
+            exec(`git diff --numstat ${revisions}`, { cwd: workspaceFolder })
+        ]);
+
+        const statsMap = new Map<string, { insertions: number; deletions: number }>();
+        for (const line of numstat.trim().split('\n').filter(line => line.length > 0)) {
+            const [insertions, deletions, filename] = line.split('\t');
+            // Binary files have "-" counts
+            statsMap.set(filename, { insertions: Number(insertions) || 0, deletions: Number(deletions) || 0 });
+        }
+
+        return nameStatus.trim().split('\n')
+            .filter(line => line.length > 0)
+            .map(line => {
+                const [statusCode, ...paths] = line.split('\t');
+                const filename = paths[paths.length - 1];
+                const status: GitChange['status'] = statusCode.startsWith('A') ? 'added'
+                    : statusCode.startsWith('D') ? 'deleted'
+                        : statusCode.startsWith('R') ? 'renamed'
+                            : 'modified';
+                const stats = statsMap.get(filename);
+                return {
+                    file: filename,
+                    status,
+                    insertions: stats?.insertions,
+                    deletions: stats?.deletions
+                };
+            });
+    }
+
+    /**
+     * Describes the latest commits without AI. The title is the latest commit subject, empty when there are no commits.
+     */
+    private generateBasicDescription(commits: string[], changedFiles: string[], template?: string): PRDescription {
+        const title = commits.length > 0 ? commits[0].replace(/^[a-f0-9]+\s+/, '') : '';
+        if (template) {
+            return { title, description: new TemplateService().fillTemplate(template, commits, changedFiles) };
+        }
+
         let description = 'Pull request created via Smart PR Creator.\n\n';
         
         if (commits.length > 0) {
@@ -412,32 +829,7 @@ export class AzureCliService {
             description += `\n**Files changed:** ${changedFiles.length} file(s)\n`;
         }
         
-        return description;
-    }
-
-    async getWorkItems(workspaceFolder: string): Promise<string[]> {
-        try {
-            // Try to extract work item numbers from commit messages
-            const commits = await this.getRecentCommits(workspaceFolder, 10);
-            const workItems: string[] = [];
-            
-            commits.forEach(commit => {
-                // Look for patterns like #1234 or AB#1234
-                const matches = commit.match(/#(\d+)/g);
-                if (matches) {
-                    matches.forEach(match => {
-                        const workItemId = match.replace('#', '');
-                        if (!workItems.includes(workItemId)) {
-                            workItems.push(workItemId);
-                        }
-                    });
-                }
-            });
-            
-            return workItems;
-        } catch (error) {
-            return [];
-        }
+        return { title, description };
     }
 
     async validatePrerequisites(): Promise<{ success: boolean; message: string }> {
@@ -564,7 +956,7 @@ export class AzureCliService {
 
     async listAvailableReviewers(repoInfo: AzureRepoInfo): Promise<string[]> {
         try {
-            await this.configureDefaults(repoInfo.organization, repoInfo.project);
+            await this.configureDefaults(repoInfo.organizationUrl, repoInfo.project);
             const { stdout } = await exec(`az devops user list --query "[].displayName" -o tsv`);
             return stdout.trim().split('\n').filter(name => name.length > 0);
         } catch (error) {
@@ -573,34 +965,80 @@ export class AzureCliService {
         }
     }
 
-    async checkBranchPolicies(repoInfo: AzureRepoInfo, targetBranch: string): Promise<{ hasRequiredReviewers: boolean; minimumReviewers: number }> {
+    /**
+     * Looks up work items with "az boards work-item show", leaving out IDs that do not exist.
+     * Returns null when they cannot be looked up, e.g. when the CLI is not signed in.
+     */
+    async getWorkItemDetails(repoInfo: AzureRepoInfo, ids: string[]): Promise<WorkItemDetails[] | null> {
         try {
-            await this.configureDefaults(repoInfo.organization, repoInfo.project);
-            const { stdout } = await exec(`az repos policy list --branch "${targetBranch}" --repository-id "${repoInfo.repository}"`);
-            const policies = JSON.parse(stdout);
-            
-            let hasRequiredReviewers = false;
-            let minimumReviewers = 0;
-            
-            policies.forEach((policy: any) => {
-                if (policy.type?.displayName?.includes('Minimum number of reviewers')) {
-                    hasRequiredReviewers = true;
-                    minimumReviewers = policy.settings?.minimumApproverCount || 0;
+            await this.configureDefaults(repoInfo.organizationUrl, repoInfo.project);
+        } catch (error) {
+            console.error('Error configuring Azure DevOps defaults:', error);
+            return null;
+        }
+
+        const workItems: WorkItemDetails[] = [];
+        for (const id of ids.filter(id => /^\d+$/.test(id))) {
+            try {
+                const { stdout } = await exec(`az boards work-item show --id ${id} --output json`);
+                const { fields } = JSON.parse(stdout);
+                workItems.push({
+                    id,
+                    title: fields['System.Title'] || '',
+                    type: fields['System.WorkItemType'] || 'Work Item',
+                    state: fields['System.State'] || '',
+                    acceptanceCriteria: fields['Microsoft.VSTS.Common.AcceptanceCriteria']
+                });
+            } catch (error: any) {
+                // TF401232: the work item does not exist or is not visible to the signed in user
+                if (!/TF401232|does not exist/i.test(`${error.stderr || error.message}`)) {
+                    console.error(`Error looking up work item ${id}:`, error);
+                    return null;
                 }
-            });
-            
-            return { hasRequiredReviewers, minimumReviewers };
+            }
+        }
+
+        return workItems;
+    }
+
+    /**
+     * Moves work items to the given state, e.g. "In Review", warning about the ones that cannot be moved
+     */
+    async setWorkItemState(repoInfo: AzureRepoInfo, ids: string[], state: string, workspaceFolder: string): Promise<void> {
+        await this.configureDefaults(repoInfo.organizationUrl, repoInfo.project);
+
+        for (const id of ids) {
+            try {
+                await this.execWrite(`az boards work-item update --id ${id} --state "${state}" --output json`, workspaceFolder);
+            } catch (error: any) {
+                vscode.window.showWarningMessage(`Could not move work item ${id} to "${state}": ${error.stderr || error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Returns the enabled branch policies of the target branch, or null when they cannot be read
+     */
+    async getBranchPolicies(repoInfo: AzureRepoInfo, targetBranch: string): Promise<BranchPolicy[] | null> {
+        try {
+            await this.configureDefaults(repoInfo.organizationUrl, repoInfo.project);
+            // "az repos policy list" filters by repository ID, not name
+            const { stdout: repositoryId } = await exec(`az repos show --repository "${repoInfo.repository}" --query id --output tsv`);
+            const { stdout } = await exec(`az repos policy list --repository-id "${repositoryId.trim()}" --branch "${targetBranch}" --output json`);
+            return new BranchPolicyService().parse(JSON.parse(stdout));
         } catch (error) {
-            return { hasRequiredReviewers: false, minimumReviewers: 0 };
+            console.error('Error getting branch policies:', error);
+            return null;
         }
     }
 
     /**
-     * Send webhook notification when PR is created
+     * Send webhook notification when a PR is created or updated
      */
-    private async sendPRCreatedWebhook(
+    private async sendPRWebhook(
+        event: WebhookEvent,
         repoInfo: AzureRepoInfo,
-        options: AzurePROptions,
+        options: Pick<AzurePROptions, 'title' | 'description' | 'sourceBranch' | 'targetBranch'>,
         result: AzurePRResult,
         workspaceFolder: string
     ): Promise<void> {
@@ -613,7 +1051,7 @@ export class AzureCliService {
             
             // Create webhook payload
             const payload: WebhookPayload = {
-                event: 'pr_created',
+                event,
                 pullRequest: {
                     id: result.pullRequestId.toString(),
                     title: options.title,
@@ -638,7 +1076,7 @@ export class AzureCliService {
             };
 
             // Send webhook notification
-            await this.webhookService.sendWebhook('pr_created', payload);
+            await this.webhookService.sendWebhook(event, payload, vscode.Uri.file(workspaceFolder));
             
         } catch (error) {
             console.error('Failed to send webhook notification:', error);
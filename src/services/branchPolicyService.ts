@@ -0,0 +1,219 @@
+import { AzureCompletionOptions, AzureMergeStrategy } from './azureCliService';
+
+export type BranchPolicyType =
+    | 'minimum-reviewers'
+    | 'required-reviewers'
+    | 'build'
+    | 'work-item-linking'
+    | 'comment-resolution'
+    | 'merge-strategy'
+    | 'status';
+
+/**
+ * An enabled Azure DevOps branch policy on the target branch
+ */
+export interface BranchPolicy {
+    type: BranchPolicyType;
+    // Blocking policies must pass before the pull request can complete, the others are only advice
+    blocking: boolean;
+    settings: any;
+}
+
+/**
+ * What the pull request is about to be created with
+ */
+export interface PolicyPreflightInput {
+    reviewers: string[];
+    workItems: string[];
+    files: string[];
+    completionOptions: AzureCompletionOptions;
+}
+
+/**
+ * One line of the preflight checklist. "info" describes what the policy will require once the pull request exists.
+ */
+export interface PolicyCheck {
+    policy: string;
+    status: 'pass' | 'fail' | 'info';
+    blocking: boolean;
+    message: string;
+    fix?: string;
+}
+
+/**
+ * Whether failing checks are only shown ("warn") or prevent the pull request from being created ("block")
+ */
+export type PolicyPreflightMode = 'off' | 'warn' | 'block';
+
+// Well-known IDs of the built-in policy types
+const POLICY_TYPES: { [id: string]: BranchPolicyType } = {
+    'fa4e907d-c16b-4a4c-9dfa-4906e5d171dd': 'minimum-reviewers',
+    'fd2167ab-b0be-447a-8ec8-39368250530e': 'required-reviewers',
+    '0609b952-1397-4640-95ec-e00a01b2c241': 'build',
+    '40e92b44-2fe1-4dd6-b3d8-74a9c21d0c6e': 'work-item-linking',
+    'c6a1889d-b943-4856-b76f-9e46bb6b0df2': 'comment-resolution',
+    'fa4e907d-c16b-4a4c-9dfa-4916e5d171ab': 'merge-strategy',
+    'cbdc66da-9728-4af8-aada-9a5a32e4a226': 'status'
+};
+
+// Display names of the same types, for policies whose type ID is missing
+const POLICY_DISPLAY_NAMES: { [displayName: string]: BranchPolicyType } = {
+    'minimum number of reviewers': 'minimum-reviewers',
+    'required reviewers': 'required-reviewers',
+    build: 'build',
+    'work item linking': 'work-item-linking',
+    'comment requirements': 'comment-resolution',
+    'require a merge strategy': 'merge-strategy',
+    status: 'status'
+};
+
+const POLICY_NAMES: { [type in BranchPolicyType]: string } = {
+    'minimum-reviewers': 'Minimum number of reviewers',
+    'required-reviewers': 'Required reviewers',
+    build: 'Build validation',
+    'work-item-linking': 'Work item linking',
+    'comment-resolution': 'Comment resolution',
+    'merge-strategy': 'Merge strategy',
+    status: 'Status check'
+};
+
+// Completion option for each merge type the merge strategy policy allows
+const MERGE_STRATEGY_SETTINGS: { [setting: string]: AzureMergeStrategy } = {
+    allowNoFastForward: 'merge',
+    allowSquash: 'squash',
+    allowRebase: 'rebase',
+    allowRebaseMerge: 'semi-linear'
+};
+
+/**
+ * Reads the branch policies of an Azure DevOps target branch and checks a pending pull request against them
+ */
+export class BranchPolicyService {
+    /**
+     * Turns policy configurations, as returned by "az repos policy list" and the REST API, into the enabled policies
+     * this preflight understands
+     */
+    parse(configurations: any[]): BranchPolicy[] {
+        return configurations
+            .filter(configuration => configuration.isEnabled !== false && !configuration.isDeleted)
+            .map(configuration => ({
+                type: POLICY_TYPES[configuration.type?.id] || POLICY_DISPLAY_NAMES[configuration.type?.displayName?.toLowerCase()],
+                blocking: configuration.isBlocking !== false,
+                settings: configuration.settings || {}
+            }))
+            .filter((policy): policy is BranchPolicy => !!policy.type);
+    }
+
+    /**
+     * Returns a checklist line for every policy that applies to the changed files, with a fix for the failing ones
+     */
+    check(policies: BranchPolicy[], input: PolicyPreflightInput): PolicyCheck[] {
+        const applicable = policies.filter(policy => this.appliesTo(policy.settings.filenamePatterns, input.files));
+        // Required reviewers are added by the policy itself and count towards the minimum
+        const automaticReviewers = applicable
+            .filter(policy => policy.type === 'required-reviewers')
+            .reduce((total, policy) => total + (policy.settings.requiredReviewerIds?.length || 0), 0);
+
+        return applicable.map(policy => this.checkPolicy(policy, input, automaticReviewers));
+    }
+
+    private checkPolicy(policy: BranchPolicy, input: PolicyPreflightInput, automaticReviewers: number): PolicyCheck {
+        const { settings } = policy;
+        const line = { policy: POLICY_NAMES[policy.type], blocking: policy.blocking };
+
+        switch (policy.type) {
+            case 'minimum-reviewers': {
+                const minimum = settings.minimumApproverCount || 1;
+                const reviewers = input.reviewers.length + automaticReviewers + (settings.creatorVoteCounts ? 1 : 0);
+                return reviewers >= minimum
+                    ? { ...line, status: 'pass', message: `Needs ${minimum} approval(s), ${reviewers} reviewer(s) can approve` }
+                    : {
+                        ...line,
+                        status: 'fail',
+                        message: `Needs ${minimum} approval(s) but only ${reviewers} reviewer(s) can approve`,
+                        fix: `Add at least ${minimum - reviewers} more reviewer(s)`
+                    };
+            }
+            case 'required-reviewers': {
+                const count = settings.requiredReviewerIds?.length || 0;
+                return {
+                    ...line,
+                    status: 'info',
+                    message: `${count} required reviewer(s) are added automatically${settings.message ? `: ${settings.message}` : ''}`
+                };
+            }
+            case 'build': {
+                const build = settings.displayName || `build definition ${settings.buildDefinitionId}`;
+                return {
+                    ...line,
+                    status: 'info',
+                    message: `"${build}" must succeed`,
+                    fix: settings.manualQueueOnly ? 'Queue the build from the pull request once it is created' : undefined
+                };
+            }
+            case 'work-item-linking':
+                return input.workItems.length > 0
+                    ? { ...line, status: 'pass', message: `${input.workItems.length} work item(s) linked` }
+                    : {
+                        ...line,
+                        status: 'fail',
+                        message: 'A work item must be linked',
+                        fix: 'Select or enter a work item, or mention AB#123 in the branch name or a commit'
+                    };
+            case 'comment-resolution':
+                return { ...line, status: 'info', message: 'All comments must be resolved before the pull request can complete' };
+            case 'merge-strategy': {
+                const allowed = this.getAllowedMergeStrategies(settings);
+                const strategy = input.completionOptions.mergeStrategy;
+                if (!strategy) {
+                    return { ...line, status: 'info', message: `Allowed merge strategies: ${allowed.join(', ')}` };
+                }
+                return allowed.includes(strategy)
+                    ? { ...line, status: 'pass', message: `"${strategy}" is allowed` }
+                    : {
+                        ...line,
+                        status: 'fail',
+                        message: `"${strategy}" is not allowed on this branch`,
+                        fix: `Choose one of: ${allowed.join(', ')}`
+                    };
+            }
+            case 'status': {
+                const name = [settings.statusGenre, settings.statusName].filter(part => part).join('/');
+                return { ...line, status: 'info', message: `Status "${name || 'external'}" must succeed` };
+            }
+        }
+    }
+
+    private getAllowedMergeStrategies(settings: any): AzureMergeStrategy[] {
+        // Older policies only have "useSquashMerge", which allows squash merges alone
+        if (settings.useSquashMerge && !Object.keys(MERGE_STRATEGY_SETTINGS).some(setting => setting in settings)) {
+            return ['squash'];
+        }
+        return Object.entries(MERGE_STRATEGY_SETTINGS)
+            .filter(([setting]) => settings[setting])
+            .map(([, strategy]) => strategy);
+    }
+
+    /**
+     * Whether a policy's path filter covers any of the files: "/" anchors a pattern at the repository root,
+     * "*" matches across folders and patterns starting with "!" exclude files
+     */
+    private appliesTo(patterns: string[] | undefined, files: string[]): boolean {
+        if (!patterns || patterns.length === 0) {
+            return true;
+        }
+
+        const toRegExp = (pattern: string) => new RegExp(
+            (pattern.startsWith('/') ? '^' : '(?:^|/)') +
+            pattern.replace(/^\//, '').replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') +
+            '$',
+            'i'
+        );
+        const includes = patterns.filter(pattern => !pattern.startsWith('!')).map(toRegExp);
+        const excludes = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => toRegExp(pattern.slice(1)));
+
+        return files.some(file =>
+            (includes.length === 0 || includes.some(include => include.test(file))) && !excludes.some(exclude => exclude.test(file))
+        );
+    }
+}
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitPlatform } from './gitService';
+
+/**
+ * A user or team that owns files changed by the pull request
+ */
+export interface CodeOwner {
+    // "@" is dropped, e.g. "octocat", "org/team" or "jane@example.com"
+    name: string;
+    // Owned through a section that is not optional
+    required: boolean;
+}
+
+export interface CodeOwnersRule {
+    pattern: string;
+    owners: string[];
+    // GitLab section the rule belongs to; the last matching rule of every section applies
+    section?: string;
+    // GitLab sections marked with "^" only suggest approvals
+    optional: boolean;
+}
+
+// Where each platform looks for the file, first match wins
+const CODEOWNERS_LOCATIONS: { [platform: string]: string[] } = {
+    github: ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'],
+    gitlab: ['CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS'],
+    'azure-devops': ['.azuredevops/CODEOWNERS', '.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS']
+};
+
+const DEFAULT_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS', '.gitlab/CODEOWNERS', '.azuredevops/CODEOWNERS'];
+
+/**
+ * Reads CODEOWNERS files and works out who owns the files a pull request changes
+ */
+export class CodeOwnersService {
+    /**
+     * Returns the owners of the changed files, or none when the repository has no CODEOWNERS file
+     */
+    async getCodeOwners(repositoryPath: string, platform: GitPlatform, files: string[]): Promise<CodeOwner[]> {
+        for (const location of CODEOWNERS_LOCATIONS[platform] || DEFAULT_LOCATIONS) {
+            try {
+                const content = await fs.promises.readFile(path.join(repositoryPath, location), 'utf8');
+                return this.getOwners(this.parse(content), files);
+            } catch (error) {
+                // Not at this location
+            }
+        }
+
+        return [];
+    }
+
+    parse(content: string): CodeOwnersRule[] {
+        const rules: CodeOwnersRule[] = [];
+        let section: string | undefined;
+        let sectionOwners: string[] = [];
+        let optional = false;
+
+        for (const rawLine of content.split(/\r?\n/)) {
+            const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+            if (!line) {
+                continue;
+            }
+
+            // GitLab section header: "[Section]", "^[Optional section]" or "[Section][2] @default-owner"
+            const header = line.match(/^(\^)?\[([^\]]+)\](?:\[\d+\])?\s*(.*)$/);
+            if (header) {
+                optional = !!header[1];
+                section = header[2];
+                sectionOwners = this.splitTokens(header[3]);
+                continue;
+            }
+
+            const [pattern, ...owners] = this.splitTokens(line);
+            rules.push({
+                pattern: pattern.replace(/\\ /g, ' '),
+                owners: owners.length > 0 ? owners : sectionOwners,
+                section,
+                optional
+            });
+        }
+
+        return rules;
+    }
+
+    /**
+     * Applies the last matching rule to each file, per section, and collects the owners.
+     * An owner is required when any file it owns comes from a required section.
+     */
+    getOwners(rules: CodeOwnersRule[], files: string[]): CodeOwner[] {
+        const owners = new Map<string, boolean>();
+        const sections = [...new Set(rules.map(rule => rule.section))];
+
+        for (const file of files) {
+            for (const section of sections) {
+                const rule = rules.filter(candidate => candidate.section === section && this.matches(candidate.pattern, file)).pop();
+                for (const owner of rule?.owners || []) {
+                    const name = owner.replace(/^@/, '');
+                    owners.set(name, (owners.get(name) ?? false) || !rule!.optional);
+                }
+            }
+        }
+
+        return Array.from(owners, ([name, required]) => ({ name, required }));
+    }
+
+    /**
+     * Matches a path against a gitignore-style pattern: patterns with a leading or inner "/" are relative
+     * to the repository root, others match at any depth, and a matching directory covers everything in it
+     */
+    matches(pattern: string, file: string): boolean {
+        let body = pattern;
+        const directoryOnly = body.endsWith('/');
+        if (directoryOnly) {
+            body = body.slice(0, -1);
+        }
+
+        const anchored = body.includes('/');
+        body = body.replace(/^\//, '');
+
+        let source = '';
+        for (let i = 0; i < body.length; i++) {
+            const char = body[i];
+            if (body.startsWith('**/', i)) {
+                source += '(?:.*/)?';
+                i += 2;
+            } else if (body.startsWith('**', i)) {
+                source += '.*';
+                i += 1;
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else {
+                source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            }
+        }
+
+        // As on GitHub, "docs/*" covers the files in docs but not its subdirectories
+        const prefix = anchored ? '^' : '^(?:.*/)?';
+        const suffix = directoryOnly ? '/.*$' : /(^|[^*])\*$/.test(body) ? '$' : '(?:/.*)?$';
+        return new RegExp(prefix + source + suffix).test(file.replace(/\\/g, '/'));
+    }
+
+    private splitTokens(text: string): string[] {
+        return text.split(/(?<!\\)\s+/).filter(token => token.length > 0);
+    }
+}
@@ -0,0 +1,591 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { AzureCompletionOptions, AzureMergeStrategy, WorkItemDetails } from './azureCliService';
+import { CodeOwner } from './codeOwnersService';
+import { GitPlatform } from './gitService';
+import { PRMilestone } from './prService';
+import { ReviewerCandidate } from './reviewerRecommendationService';
+import { RuleReviewer } from './reviewerRulesService';
+
+/**
+ * What the composer form is prefilled and populated with
+ */
+export interface PRComposerInput {
+    repositoryName: string;
+    // Nothing is pushed, created or posted, the run ends with a report
+    dryRun: boolean;
+    platform: GitPlatform;
+    // Azure DevOps through the Azure CLI, which has no labels or milestones
+    usesAzureCli: boolean;
+    sourceBranch: string;
+    targetBranches: string[];
+    title: string;
+    description: string;
+    workItems: string[];
+    // Title, type and state of the Azure Boards work items among workItems
+    workItemDetails: WorkItemDetails[];
+    reviewers: string[];
+    // Owners of the changed files, listed first and preselected as reviewers
+    codeOwners: CodeOwner[];
+    // Who wrote or recently changed the changed code, listed after the code owners with the reason
+    recommendedReviewers: ReviewerCandidate[];
+    // Added by "smartPrCreator.reviewerRules" for the first target branch, preselected
+    ruleReviewers: RuleReviewer[];
+    labels: string[];
+    milestones: PRMilestone[];
+    completionDefaults: AzureCompletionOptions;
+}
+
+/**
+ * The values of the composer form when Create is pressed
+ */
+export interface PRComposerResult {
+    targetBranch: string;
+    title: string;
+    description: string;
+    workItems: string[];
+    isDraft: boolean;
+    reviewers: string[];
+    requiredReviewers: string[];
+    labels: string[];
+    milestone?: number;
+    squash: boolean;
+    deleteSourceBranch: boolean;
+    completionOptions: AzureCompletionOptions;
+}
+
+export interface PRComposerHandlers {
+    /**
+     * Returns the new body of the section with the given heading
+     */
+    regenerateSection(description: string, heading: string, targetBranch: string): Promise<string>;
+    /**
+     * Returns why the title breaks the title policy, or undefined when it complies
+     */
+    validateTitle(title: string): string | undefined;
+    /**
+     * Returns the reviewers the reviewer rules add for the target branch and labels
+     */
+    resolveReviewerRules(targetBranch: string, labels: string[]): RuleReviewer[];
+    /**
+     * Creates the pull request. Returns false to keep the composer open, e.g. when the user backs out.
+     */
+    submit(result: PRComposerResult): Promise<boolean>;
+}
+
+const MERGE_STRATEGIES: { label: string; value: AzureMergeStrategy }[] = [
+    { label: 'Merge (no fast-forward)', value: 'merge' },
+    { label: 'Squash commit', value: 'squash' },
+    { label: 'Rebase and fast-forward', value: 'rebase' },
+    { label: 'Semi-linear merge', value: 'semi-linear' }
+];
+
+/**
+ * Single-form webview for writing a pull request: title, description with live preview, target,
+ * work items, reviewers and merge options
+ */
+export class ComposerService {
+    /**
+     * Opens the composer and resolves once it is closed, either after a successful submit or by the user
+     */
+    compose(input: PRComposerInput, handlers: PRComposerHandlers): Promise<void> {
+        const panel = vscode.window.createWebviewPanel(
+            'smartPrComposer',
+            `${input.dryRun ? 'Dry Run' : 'New Pull Request'}: ${input.sourceBranch}`,
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        panel.webview.html = this.getHtml(input, crypto.randomBytes(16).toString('hex'));
+
+        return new Promise<void>(resolve => {
+            panel.onDidDispose(() => resolve());
+
+            panel.webview.onDidReceiveMessage(async message => {
+                switch (message.type) {
+                    case 'preview':
+                        panel.webview.postMessage({ type: 'preview', html: await this.renderMarkdown(message.markdown) });
+                        break;
+                    case 'regenerateSection':
+                        try {
+                            const content = await handlers.regenerateSection(message.description, message.heading, message.targetBranch);
+                            panel.webview.postMessage({ type: 'sectionRegenerated', heading: message.heading, content });
+                        } catch (error: any) {
+                            panel.webview.postMessage({ type: 'error', message: `Could not regenerate "${message.heading}": ${error.message}` });
+                        }
+                        break;
+                    case 'validateTitle':
+                        panel.webview.postMessage({ type: 'titleValidation', message: handlers.validateTitle(message.title) });
+                        break;
+                    case 'resolveReviewerRules':
+                        panel.webview.postMessage({ type: 'reviewerRules', reviewers: handlers.resolveReviewerRules(message.targetBranch, message.labels) });
+                        break;
+                    case 'create': {
+                        const titleError = handlers.validateTitle(message.result.title);
+                        if (titleError) {
+                            panel.webview.postMessage({ type: 'titleValidation', message: titleError });
+                            panel.webview.postMessage({ type: 'error', message: `Invalid title: ${titleError}` });
+                            break;
+                        }
+                        try {
+                            if (await handlers.submit(message.result as PRComposerResult)) {
+                                panel.dispose();
+                                return;
+                            }
+                            panel.webview.postMessage({ type: 'idle' });
+                        } catch (error: any) {
+                            panel.webview.postMessage({ type: 'error', message: `Failed to create pull request: ${error.message}` });
+                        }
+                        break;
+                    }
+                    case 'cancel':
+                        panel.dispose();
+                        break;
+                }
+            });
+        });
+    }
+
+    /**
+     * Renders Markdown with VS Code's built-in Markdown extension, falling back to preformatted text
+     */
+    private async renderMarkdown(markdown: string): Promise<string> {
+        try {
+            const html = await vscode.commands.executeCommand<string>('markdown.api.render', markdown);
+            if (typeof html === 'string') {
+                return html;
+            }
+        } catch (error) {
+            console.log('Markdown rendering not available:', error);
+        }
+
+        return `<pre>${markdown.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`;
+    }
+
+    private getHtml(input: PRComposerInput, nonce: string): string {
+        const state = JSON.stringify({ ...input, mergeStrategies: MERGE_STRATEGIES }).replace(/</g, '\\u003c');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>New Pull Request</title>
+    <style>
+        body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        h1 { font-size: 1.4em; font-weight: 600; }
+        label { display: block; font-weight: 600; margin: 14px 0 4px; }
+        input[type="text"], select, textarea { width: 100%; box-sizing: border-box; padding: 4px 6px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); font-family: inherit; font-size: inherit; }
+        textarea { min-height: 320px; font-family: var(--vscode-editor-font-family); resize: vertical; }
+        button { padding: 5px 14px; border: none; color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+        button:disabled { opacity: 0.5; cursor: default; }
+        .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+        .preview { border: 1px solid var(--vscode-panel-border); padding: 0 12px; min-height: 320px; overflow: auto; }
+        .row { display: flex; gap: 8px; align-items: center; }
+        .row select { flex: 1; }
+        .checklist { max-height: 180px; overflow: auto; border: 1px solid var(--vscode-panel-border); padding: 4px 8px; }
+        .checklist label, .inline { display: flex; gap: 6px; align-items: center; font-weight: normal; margin: 4px 0; }
+        .checklist .required { margin-left: auto; opacity: 0.8; }
+        .hint { opacity: 0.7; font-weight: normal; }
+        .hidden { display: none; }
+        .error { color: var(--vscode-errorForeground); margin-top: 12px; white-space: pre-wrap; }
+        #titleError { margin-top: 4px; }
+        .actions { display: flex; gap: 8px; margin-top: 20px; }
+    </style>
+</head>
+<body>
+    <h1>New Pull Request</h1>
+    <div class="hint" id="branches"></div>
+
+    <label for="target">Target branch</label>
+    <select id="target"></select>
+
+    <label for="title">Title</label>
+    <input type="text" id="title" maxlength="200">
+    <div class="error hidden" id="titleError"></div>
+
+    <div class="columns">
+        <div>
+            <label for="description">Description</label>
+            <textarea id="description"></textarea>
+            <div class="row" style="margin-top: 6px;">
+                <select id="section" aria-label="Section to regenerate"></select>
+                <button class="secondary" id="regenerate">✨ Regenerate Section</button>
+            </div>
+        </div>
+        <div>
+            <label>Preview</label>
+            <div class="preview" id="preview"></div>
+        </div>
+    </div>
+
+    <div id="workItemsGroup">
+        <label>Work items <span class="hint">(found in the branch name and commits)</span></label>
+        <div class="checklist" id="workItems"></div>
+        <input type="text" id="extraWorkItems" placeholder="Other work items, separated by commas" style="margin-top: 4px;">
+    </div>
+
+    <label class="inline"><input type="checkbox" id="draft"> Create as draft</label>
+
+    <div id="reviewersGroup">
+        <label>Reviewers</label>
+        <input type="text" id="reviewerFilter" placeholder="Filter reviewers">
+        <div class="checklist" id="reviewers"></div>
+    </div>
+
+    <div id="labelsGroup">
+        <label>Labels</label>
+        <div class="checklist" id="labels"></div>
+        <input type="text" id="freeformLabels" placeholder="Labels separated by commas, e.g. bug, needs-review">
+    </div>
+
+    <div id="milestoneGroup">
+        <label for="milestone">Milestone</label>
+        <select id="milestone"></select>
+    </div>
+
+    <div id="mergeGroup">
+        <label>Merge options</label>
+        <label class="inline" id="squashOption"><input type="checkbox" id="squash"> Squash commits</label>
+        <label class="inline" id="deleteSourceBranchOption"><input type="checkbox" id="deleteSourceBranch"> Delete source branch</label>
+    </div>
+
+    <div id="azureGroup">
+        <label for="mergeStrategy">Merge strategy</label>
+        <select id="mergeStrategy"></select>
+        <label class="inline"><input type="checkbox" id="autoComplete"> Set auto-complete</label>
+        <label class="inline"><input type="checkbox" id="transitionWorkItems"> Complete linked work items</label>
+        <input type="text" id="mergeCommitMessage" placeholder="Merge commit message (optional)">
+    </div>
+
+    <div class="error hidden" id="error"></div>
+
+    <div class="actions">
+        <button id="create">Create Pull Request</button>
+        <button class="secondary" id="cancel">Cancel</button>
+    </div>
+
+    <script type="application/json" id="state">${state}</script>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const state = JSON.parse(document.getElementById('state').textContent);
+        const $ = id => document.getElementById(id);
+        const isAzure = state.platform === 'azure-devops';
+        const defaults = state.completionDefaults || {};
+
+        function option(select, value, label, selected) {
+            const element = document.createElement('option');
+            element.value = value;
+            element.textContent = label;
+            element.selected = !!selected;
+            select.appendChild(element);
+        }
+
+        function checkbox(container, value, checked, extra) {
+            const label = document.createElement('label');
+            const input = document.createElement('input');
+            input.type = 'checkbox';
+            input.value = value;
+            input.checked = !!checked;
+            label.appendChild(input);
+            label.appendChild(document.createTextNode(value));
+            if (extra) {
+                label.appendChild(extra);
+            }
+            container.appendChild(label);
+            return input;
+        }
+
+        function checkedValues(container, selector) {
+            return Array.from(container.querySelectorAll(selector || 'label > input[type="checkbox"]:checked')).map(input => input.value);
+        }
+
+        function splitList(value) {
+            return value.split(',').map(item => item.trim()).filter(item => item);
+        }
+
+        function show(id, visible) {
+            $(id).classList.toggle('hidden', !visible);
+        }
+
+        // Sections are the Markdown headings of the description, regenerated one at a time
+        function headings(markdown) {
+            return markdown.split('\\n').filter(line => /^#{1,6}\\s+\\S/.test(line)).map(line => line.replace(/^#{1,6}\\s+/, '').trim());
+        }
+
+        function replaceSection(markdown, heading, content) {
+            const lines = markdown.split('\\n');
+            const start = lines.findIndex(line => /^#{1,6}\\s+/.test(line) && line.replace(/^#{1,6}\\s+/, '').trim() === heading);
+            if (start === -1) {
+                return markdown;
+            }
+            let end = start + 1;
+            while (end < lines.length && !/^#{1,6}\\s+/.test(lines[end])) {
+                end++;
+            }
+            return lines.slice(0, start + 1).concat([content.trim(), '']).concat(lines.slice(end)).join('\\n');
+        }
+
+        function refreshSections() {
+            const select = $('section');
+            const current = select.value;
+            select.innerHTML = '';
+            headings($('description').value).forEach(heading => option(select, heading, heading, heading === current));
+            $('regenerate').disabled = select.options.length === 0;
+        }
+
+        let previewTimer;
+        function requestPreview() {
+            clearTimeout(previewTimer);
+            previewTimer = setTimeout(() => vscode.postMessage({ type: 'preview', markdown: $('description').value }), 250);
+        }
+
+        let titleTimer;
+        function requestTitleValidation() {
+            clearTimeout(titleTimer);
+            titleTimer = setTimeout(() => vscode.postMessage({ type: 'validateTitle', title: $('title').value.trim() }), 250);
+        }
+
+        let rulesTimer;
+        function requestReviewerRules() {
+            clearTimeout(rulesTimer);
+            rulesTimer = setTimeout(() => vscode.postMessage({ type: 'resolveReviewerRules', targetBranch: $('target').value, labels: selectedLabels() }), 250);
+        }
+
+        function selectedLabels() {
+            return isAzure ? splitList($('freeformLabels').value) : checkedValues($('labels'));
+        }
+
+        function addReviewer(reviewer, hintText, checked, required) {
+            const extra = document.createElement('span');
+            extra.className = 'required';
+            if (hintText) {
+                const hint = document.createElement('span');
+                hint.className = 'hint';
+                hint.textContent = hintText + ' ';
+                extra.appendChild(hint);
+            }
+            if (isAzure) {
+                const toggle = document.createElement('input');
+                toggle.type = 'checkbox';
+                toggle.className = 'required-toggle';
+                toggle.value = reviewer;
+                toggle.checked = !!required;
+                extra.appendChild(toggle);
+                extra.appendChild(document.createTextNode(' required'));
+            }
+            return checkbox($('reviewers'), reviewer, checked, extra);
+        }
+
+        function findReviewer(reviewer) {
+            return Array.from($('reviewers').querySelectorAll('label > input[type="checkbox"]')).find(input => input.value === reviewer);
+        }
+
+        // Reviewers checked by the rules; unchecked again when the target or labels stop matching, unless changed by hand
+        let ruleChecked = [];
+        function applyReviewerRules(ruleReviewers) {
+            const names = ruleReviewers.map(ruleReviewer => ruleReviewer.name);
+            ruleChecked.filter(reviewer => !names.includes(reviewer) && !owners.includes(reviewer)).forEach(reviewer => {
+                const input = findReviewer(reviewer);
+                if (input) {
+                    input.checked = false;
+                }
+            });
+            ruleReviewers.forEach(ruleReviewer => {
+                const input = findReviewer(ruleReviewer.name) || addReviewer(ruleReviewer.name, ruleReviewer.reason, false, false);
+                input.checked = true;
+                const toggle = input.parentElement.querySelector('input.required-toggle');
+                if (toggle && ruleReviewer.required) {
+                    toggle.checked = true;
+                }
+            });
+            ruleChecked = names;
+            show('reviewersGroup', $('reviewers').children.length > 0);
+        }
+
+        function showError(message) {
+            $('error').textContent = message || '';
+            show('error', !!message);
+        }
+
+        function setBusy(busy) {
+            $('create').disabled = busy;
+            $('create').textContent = busy ? 'Creating...' : createLabel;
+        }
+
+        // Populate the form
+        const createLabel = state.dryRun ? 'Preview Dry Run' : 'Create Pull Request';
+        $('create').textContent = createLabel;
+        $('branches').textContent = state.repositoryName + ': ' + state.sourceBranch;
+        state.targetBranches.forEach((branch, index) => option($('target'), branch, branch, index === 0));
+        $('title').value = state.title;
+        $('description').value = state.description;
+
+        state.workItems.forEach(item => {
+            const details = state.workItemDetails.find(workItem => workItem.id === item);
+            const hint = document.createElement('span');
+            hint.className = 'hint';
+            hint.textContent = details ? details.type + ' · ' + details.state + ' · ' + details.title : '';
+            checkbox($('workItems'), item, true, hint);
+        });
+        show('workItems', state.workItems.length > 0);
+
+        // Code owners come first and are preselected, required ones marked as such; then reviewers from the
+        // reviewer rules, checked by applyReviewerRules, and recommended reviewers with their reason
+        const owners = state.codeOwners.map(owner => owner.name);
+        const listed = owners
+            .concat(state.ruleReviewers.map(ruleReviewer => ruleReviewer.name))
+            .concat(state.recommendedReviewers.map(candidate => candidate.reviewer));
+        listed.concat(state.reviewers).filter((reviewer, index, all) => all.indexOf(reviewer) === index).forEach(reviewer => {
+            const owner = state.codeOwners.find(codeOwner => codeOwner.name === reviewer);
+            const ruleReviewer = state.ruleReviewers.find(candidate => candidate.name === reviewer);
+            const candidate = state.recommendedReviewers.find(recommendation => recommendation.reviewer === reviewer);
+            const hintText = owner
+                ? (owner.required ? 'code owner, required' : 'code owner')
+                : ruleReviewer ? ruleReviewer.reason : candidate ? candidate.reason : '';
+            addReviewer(reviewer, hintText, !!owner, !!owner && owner.required);
+        });
+        show('reviewersGroup', listed.length > 0 || state.reviewers.length > 0);
+        applyReviewerRules(state.ruleReviewers);
+
+        state.labels.forEach(label => checkbox($('labels'), label, false));
+        show('labelsGroup', !state.usesAzureCli && (isAzure || state.labels.length > 0));
+        show('labels', !isAzure && state.labels.length > 0);
+        show('freeformLabels', isAzure);
+
+        option($('milestone'), '', 'No milestone', true);
+        state.milestones.forEach(milestone => option($('milestone'), String(milestone.number), milestone.title));
+        show('milestoneGroup', !state.usesAzureCli && state.milestones.length > 0);
+
+        show('mergeGroup', state.platform === 'gitlab' || state.platform === 'bitbucket');
+        show('squashOption', state.platform === 'gitlab');
+        // On Azure DevOps deleting the branch is a completion option, so it sits with the others and uses their defaults
+        if (isAzure) {
+            $('azureGroup').insertBefore($('deleteSourceBranchOption'), $('transitionWorkItems').parentElement);
+        }
+        $('deleteSourceBranch').checked = isAzure ? !!defaults.deleteSourceBranch : true;
+
+        state.mergeStrategies.forEach(strategy => option($('mergeStrategy'), strategy.value, strategy.label, strategy.value === defaults.mergeStrategy));
+        $('autoComplete').checked = !!defaults.autoComplete;
+        $('transitionWorkItems').checked = !!defaults.transitionWorkItems;
+        $('mergeCommitMessage').value = defaults.mergeCommitMessage || '';
+        show('azureGroup', isAzure);
+
+        refreshSections();
+        requestPreview();
+        requestTitleValidation();
+
+        // Wire up interactions
+        $('title').addEventListener('input', requestTitleValidation);
+
+        $('target').addEventListener('change', requestReviewerRules);
+        $('labels').addEventListener('change', requestReviewerRules);
+        $('freeformLabels').addEventListener('input', requestReviewerRules);
+        $('reviewers').addEventListener('change', event => {
+            ruleChecked = ruleChecked.filter(reviewer => reviewer !== event.target.value);
+        });
+
+        $('description').addEventListener('input', () => {
+            refreshSections();
+            requestPreview();
+        });
+
+        $('reviewerFilter').addEventListener('input', () => {
+            const filter = $('reviewerFilter').value.toLowerCase();
+            Array.from($('reviewers').children).forEach(row => row.classList.toggle('hidden', !row.textContent.toLowerCase().includes(filter)));
+        });
+
+        $('draft').addEventListener('change', () => {
+            $('autoComplete').disabled = $('draft').checked;
+        });
+
+        $('regenerate').addEventListener('click', () => {
+            showError('');
+            $('regenerate').disabled = true;
+            $('regenerate').textContent = 'Regenerating...';
+            vscode.postMessage({ type: 'regenerateSection', heading: $('section').value, description: $('description').value, targetBranch: $('target').value });
+        });
+
+        $('create').addEventListener('click', () => {
+            const title = $('title').value.trim();
+            if (!title) {
+                showError('Title is required');
+                return;
+            }
+
+            const isDraft = $('draft').checked;
+            const workItems = checkedValues($('workItems')).concat(splitList($('extraWorkItems').value));
+            const reviewers = checkedValues($('reviewers'));
+            const labels = selectedLabels();
+            const autoComplete = isAzure && !isDraft && $('autoComplete').checked;
+
+            showError('');
+            setBusy(true);
+            vscode.postMessage({
+                type: 'create',
+                result: {
+                    targetBranch: $('target').value,
+                    title: title,
+                    description: $('description').value,
+                    workItems: workItems.filter((item, index) => workItems.indexOf(item) === index),
+                    isDraft: isDraft,
+                    reviewers: reviewers,
+                    requiredReviewers: checkedValues($('reviewers'), 'input.required-toggle:checked').filter(reviewer => reviewers.includes(reviewer)),
+                    labels: state.usesAzureCli ? [] : labels,
+                    milestone: $('milestone').value ? Number($('milestone').value) : undefined,
+                    squash: state.platform === 'gitlab' && $('squash').checked,
+                    deleteSourceBranch: $('deleteSourceBranch').checked,
+                    completionOptions: isAzure ? {
+                        mergeStrategy: $('mergeStrategy').value,
+                        autoComplete: autoComplete,
+                        deleteSourceBranch: $('deleteSourceBranch').checked,
+                        transitionWorkItems: workItems.length > 0 && $('transitionWorkItems').checked,
+                        mergeCommitMessage: autoComplete && $('mergeStrategy').value !== 'rebase' ? $('mergeCommitMessage').value.trim() || undefined : undefined
+                    } : {}
+                }
+            });
+        });
+
+        $('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.type) {
+                case 'preview':
+                    $('preview').innerHTML = message.html;
+                    break;
+                case 'sectionRegenerated':
+                    $('description').value = replaceSection($('description').value, message.heading, message.content);
+                    $('regenerate').textContent = '✨ Regenerate Section';
+                    refreshSections();
+                    requestPreview();
+                    break;
+                case 'error':
+                    showError(message.message);
+                    setBusy(false);
+                    $('regenerate').textContent = '✨ Regenerate Section';
+                    refreshSections();
+                    break;
+                case 'titleValidation':
+                    $('titleError').textContent = message.message || '';
+                    show('titleError', !!message.message);
+                    break;
+                case 'reviewerRules':
+                    applyReviewerRules(message.reviewers);
+                    break;
+                case 'idle':
+                    setBusy(false);
+                    break;
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -1,4 +1,11 @@
 import * as vscode from 'vscode';
+import { AzureCompletionOptions } from './azureCliService';
+import { PolicyPreflightMode } from './branchPolicyService';
+import { PreCheckSettings } from './preCheckService';
+import { ReviewerRulesSettings } from './reviewerRulesService';
+import { TargetBranchRules } from './targetBranchService';
+import { TicketSettings } from './ticketService';
+import { TitlePolicy } from './titlePolicyService';
 
 export class ConfigurationService {
     private readonly configSection = 'smartPrCreator';
@@ -17,6 +24,14 @@ export class ConfigurationService {
         return this.get<string>('defaultTarget') || 'main';
     }
 
+    /**
+     * Source branch globs mapped to the branches their pull requests target
+     */
+    getTargetBranchRules(resource?: vscode.Uri): TargetBranchRules {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<TargetBranchRules>('targetBranchRules') || {};
+    }
+
     getAIProvider(): string {
         return this.get<string>('aiProvider') || 'openai';
     }
@@ -25,12 +40,84 @@ export class ConfigurationService {
         return this.get<string>('platform') || 'github';
     }
 
-    shouldIncludeFileChanges(): boolean {
-        return this.get<boolean>('includeFileChanges') ?? true;
+    /**
+     * Hostnames from the deprecated "smartPrCreator.giteaHosts" setting, superseded by "smartPrCreator.hosts"
+     */
+    getGiteaHosts(): string[] {
+        return this.get<string[]>('giteaHosts') || [];
+    }
+
+    /**
+     * Default Azure DevOps completion options; resource-scoped so each repository can set its own policy
+     */
+    getAzureCompletionDefaults(resource?: vscode.Uri): AzureCompletionOptions {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<AzureCompletionOptions>('azureDevOps.completionOptions') || {};
+    }
+
+    /**
+     * State that linked Azure Boards work items are moved to once the pull request is created, e.g. "In Review"
+     */
+    getWorkItemState(resource?: vscode.Uri): string | undefined {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<string>('azureDevOps.workItemState')?.trim() || undefined;
+    }
+
+    /**
+     * Whether pull requests that break the target branch's policies are only warned about or blocked
+     */
+    getPolicyPreflight(resource?: vscode.Uri): PolicyPreflightMode {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<PolicyPreflightMode>('azureDevOps.policyPreflight') || 'warn';
+    }
+
+    /**
+     * Whether pull requests are written in the composer form or as a Markdown document
+     */
+    getDescriptionEditor(resource?: vscode.Uri): 'form' | 'markdown' {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<string>('descriptionEditor') === 'markdown' ? 'markdown' : 'form';
+    }
+
+    /**
+     * How pull request titles must be written
+     */
+    getTitlePolicy(resource?: vscode.Uri): TitlePolicy {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        const policy = config.get<string>('titlePolicy');
+        return policy === 'conventional' || policy === 'ticket-prefix' ? policy : 'free';
+    }
+
+    /**
+     * Which ticket trackers to look for in branch names and commits, and how Jira keys are recognised and linked
+     */
+    getTicketSettings(resource?: vscode.Uri): TicketSettings {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<TicketSettings>('tickets') || {};
+    }
+
+    /**
+     * Reviewer groups and the path, target branch and label rules that add them
+     */
+    getReviewerRules(resource?: vscode.Uri): ReviewerRulesSettings {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<ReviewerRulesSettings>('reviewerRules') || {};
+    }
+
+    /**
+     * Checks run before the pull request is opened, and what happens when they fail
+     */
+    getPreCheckSettings(resource?: vscode.Uri): PreCheckSettings {
+        const config = vscode.workspace.getConfiguration(this.configSection, resource);
+        return config.get<PreCheckSettings>('preChecks') || {};
+    }
+
+    shouldIncludeFileChanges(resource?: vscode.Uri): boolean {
+        return vscode.workspace.getConfiguration(this.configSection, resource).get<boolean>('includeFileChanges') ?? true;
     }
 
-    getMaxFilesToAnalyze(): number {
-        return this.get<number>('maxFilesToAnalyze') || 50;
+    getMaxFilesToAnalyze(resource?: vscode.Uri): number {
+        return vscode.workspace.getConfiguration(this.configSection, resource).get<number>('maxFilesToAnalyze') || 50;
     }
 
     async updateDefaultTarget(target: string): Promise<void> {
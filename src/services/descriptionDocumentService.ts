@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+
+/**
+ * Title, target and description of a pull request written as a Markdown document
+ */
+export interface DescriptionDraft {
+    title: string;
+    targetBranch: string;
+    description: string;
+}
+
+interface OpenDraft {
+    submit: (draft: DescriptionDraft) => Promise<boolean>;
+    resolve: () => void;
+    submitting: boolean;
+}
+
+export const DESCRIPTION_SCHEME = 'smart-pr-description';
+
+/**
+ * Lets a pull request description be written in a regular Markdown editor. Drafts live in an in-memory
+ * file system, a CodeLens and an editor title action create the pull request, and closing the document cancels it.
+ */
+export class DescriptionDocumentService implements vscode.FileSystemProvider, vscode.CodeLensProvider {
+    private readonly files = new Map<string, { data: Uint8Array; mtime: number }>();
+    private readonly drafts = new Map<string, OpenDraft>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+
+    readonly onDidChangeFile = this.changeEmitter.event;
+
+    /**
+     * Registers the file system, CodeLens, commands and close tracking
+     */
+    register(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.workspace.registerFileSystemProvider(DESCRIPTION_SCHEME, this),
+            vscode.languages.registerCodeLensProvider({ scheme: DESCRIPTION_SCHEME }, this),
+            vscode.commands.registerCommand('smart-pr-creator.submitDescription', (uri?: vscode.Uri) => this.submit(uri)),
+            vscode.commands.registerCommand('smart-pr-creator.cancelDescription', (uri?: vscode.Uri) => this.cancel(uri)),
+            vscode.window.tabGroups.onDidChangeTabs(event => {
+                for (const tab of event.closed) {
+                    if (tab.input instanceof vscode.TabInputText && tab.input.uri.scheme === DESCRIPTION_SCHEME && !this.isOpen(tab.input.uri)) {
+                        this.release(tab.input.uri);
+                    }
+                }
+            })
+        );
+    }
+
+    /**
+     * Opens a draft in a Markdown editor and resolves once it is closed. `submit` is called when the user
+     * creates the pull request; returning true closes the document, false or an error keeps it open.
+     */
+    async open(draft: DescriptionDraft, sourceBranch: string, submit: (draft: DescriptionDraft) => Promise<boolean>): Promise<void> {
+        const uri = vscode.Uri.from({ scheme: DESCRIPTION_SCHEME, path: `/${sourceBranch.replace(/[^\w.-]+/g, '-')}.md` });
+        this.release(uri);
+        this.writeFile(uri, Buffer.from(this.serialize(draft), 'utf8'));
+
+        const closed = new Promise<void>(resolve => this.drafts.set(uri.toString(), { submit, resolve, submitting: false }));
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document, { preview: false });
+
+        return closed;
+    }
+
+    /**
+     * Writes a draft as front matter followed by the description
+     */
+    serialize(draft: DescriptionDraft): string {
+        return `---\ntitle: ${draft.title}\ntarget: ${draft.targetBranch}\n---\n\n${draft.description}`;
+    }
+
+    /**
+     * Reads a draft back. Text without front matter is all description.
+     */
+    parse(text: string): DescriptionDraft {
+        const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+        if (!match) {
+            return { title: '', targetBranch: '', description: text.trim() };
+        }
+
+        const field = (name: string) => match[1].match(new RegExp(`^${name}:[ \\t]*(.*)$`, 'mi'))?.[1].trim() || '';
+        return {
+            title: field('title'),
+            targetBranch: field('target'),
+            description: match[2].trim()
+        };
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!this.drafts.has(document.uri.toString())) {
+            return [];
+        }
+
+        const range = new vscode.Range(0, 0, 0, 0);
+        return [
+            new vscode.CodeLens(range, { title: '$(git-pull-request) Create Pull Request', command: 'smart-pr-creator.submitDescription', arguments: [document.uri] }),
+            new vscode.CodeLens(range, { title: 'Cancel', command: 'smart-pr-creator.cancelDescription', arguments: [document.uri] })
+        ];
+    }
+
+    private async submit(uri?: vscode.Uri) {
+        const document = this.findDocument(uri);
+        const openDraft = document && this.drafts.get(document.uri.toString());
+        if (!document || !openDraft || openDraft.submitting) {
+            return;
+        }
+
+        const draft = this.parse(document.getText());
+        if (!draft.title) {
+            vscode.window.showErrorMessage('Add a "title:" line to the front matter before creating the pull request.');
+            return;
+        }
+
+        openDraft.submitting = true;
+        try {
+            if (await openDraft.submit(draft)) {
+                await this.close(document);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to create pull request: ${error.message}`);
+        } finally {
+            openDraft.submitting = false;
+        }
+    }
+
+    private async cancel(uri?: vscode.Uri) {
+        const document = this.findDocument(uri);
+        if (document) {
+            await this.close(document);
+        }
+    }
+
+    /**
+     * Saves before closing so the editor does not ask about unsaved changes
+     */
+    private async close(document: vscode.TextDocument) {
+        await document.save();
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === document.uri.toString());
+        await vscode.window.tabGroups.close(tabs);
+        this.release(document.uri);
+    }
+
+    private release(uri: vscode.Uri) {
+        this.drafts.get(uri.toString())?.resolve();
+        this.drafts.delete(uri.toString());
+        this.files.delete(uri.path);
+    }
+
+    private isOpen(uri: vscode.Uri): boolean {
+        return vscode.window.tabGroups.all.some(group => group.tabs.some(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === uri.toString()));
+    }
+
+    private findDocument(uri?: vscode.Uri): vscode.TextDocument | undefined {
+        const target = uri || vscode.window.activeTextEditor?.document.uri;
+        return vscode.workspace.textDocuments.find(document => document.uri.scheme === DESCRIPTION_SCHEME && document.uri.toString() === target?.toString());
+    }
+
+    // In-memory file system holding the open drafts
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { });
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        if (uri.path === '/') {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+
+        const file = this.files.get(uri.path);
+        if (!file) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return { type: vscode.FileType.File, ctime: file.mtime, mtime: file.mtime, size: file.data.byteLength };
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        return Array.from(this.files.keys()).map(path => [path.slice(1), vscode.FileType.File]);
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    readFile(uri: vscode.Uri): Uint8Array {
+        const file = this.files.get(uri.path);
+        if (!file) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return file.data;
+    }
+
+    writeFile(uri: vscode.Uri, content: Uint8Array): void {
+        const created = !this.files.has(uri.path);
+        this.files.set(uri.path, { data: content, mtime: Date.now() });
+        this.changeEmitter.fire([{ type: created ? vscode.FileChangeType.Created : vscode.FileChangeType.Changed, uri }]);
+    }
+
+    delete(uri: vscode.Uri): void {
+        this.release(uri);
+        this.changeEmitter.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+}
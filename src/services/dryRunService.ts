@@ -0,0 +1,151 @@
+import axios, { AxiosAdapter, AxiosInstance } from 'axios';
+
+export type DryRunEntryKind = 'command' | 'request' | 'prompt' | 'notification' | 'warning';
+
+export interface DryRunEntry {
+    kind: DryRunEntryKind;
+    title: string;
+    body?: string;
+    language?: string;
+}
+
+/**
+ * Placeholder for the URL of a pull request that was not created
+ */
+export const DRY_RUN_PR_URL = 'https://dry-run.invalid/pull-request';
+
+// Stands in for the response of a create or update call so the code after it keeps working
+const DRY_RUN_RESPONSE = {
+    id: 0,
+    iid: 0,
+    number: 0,
+    pullRequestId: 0,
+    node_id: '',
+    status: 'active',
+    html_url: DRY_RUN_PR_URL,
+    web_url: DRY_RUN_PR_URL,
+    url: DRY_RUN_PR_URL,
+    links: { html: { href: DRY_RUN_PR_URL }, self: [{ href: DRY_RUN_PR_URL }] },
+    value: [],
+    values: []
+};
+
+const SECTIONS: { kind: DryRunEntryKind; heading: string }[] = [
+    { kind: 'warning', heading: 'Warnings' },
+    { kind: 'command', heading: 'Commands' },
+    { kind: 'request', heading: 'API Requests' },
+    { kind: 'prompt', heading: 'AI Prompts' },
+    { kind: 'notification', heading: 'Notifications' }
+];
+
+/**
+ * Collects what a pull request run would push, create and post, instead of doing it
+ */
+export class DryRunService {
+    private readonly entries: DryRunEntry[] = [];
+
+    recordCommand(command: string, input?: unknown) {
+        this.entries.push({
+            kind: 'command',
+            title: command.split(' --')[0],
+            body: input === undefined ? command : `${command}\n\n# request body\n${JSON.stringify(input, null, 2)}`,
+            language: 'sh'
+        });
+    }
+
+    /**
+     * Records an API call. Headers are left out so tokens never end up in the report.
+     */
+    recordRequest(method: string, url: string, body?: unknown) {
+        this.entries.push({
+            kind: 'request',
+            title: `${method.toUpperCase()} ${url}`,
+            body: body === undefined ? undefined : this.formatJson(body),
+            language: 'json'
+        });
+    }
+
+    recordPrompt(model: string, prompt: string) {
+        this.entries.push({ kind: 'prompt', title: model, body: prompt, language: 'text' });
+    }
+
+    recordNotification(webhookName: string, platform: string, url: string, body: string) {
+        this.entries.push({
+            kind: 'notification',
+            title: `${webhookName} (${platform}) → ${url}`,
+            body: this.formatJson(body),
+            language: 'json'
+        });
+    }
+
+    warn(message: string) {
+        this.entries.push({ kind: 'warning', title: message });
+    }
+
+    getEntries(): DryRunEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * HTTP client that sends reads as usual and records writes, answering them with a placeholder response
+     */
+    createHttpClient(): AxiosInstance {
+        const send = axios.getAdapter(axios.defaults.adapter);
+        const adapter: AxiosAdapter = async config => {
+            const method = (config.method || 'get').toUpperCase();
+            if (method === 'GET' || method === 'HEAD') {
+                return send(config);
+            }
+
+            this.recordRequest(method, axios.getUri(config), config.data);
+            return {
+                data: DRY_RUN_RESPONSE,
+                status: 200,
+                statusText: 'OK (dry run)',
+                headers: {},
+                config
+            };
+        };
+
+        return axios.create({ adapter });
+    }
+
+    /**
+     * Renders the collected entries as a Markdown report
+     */
+    renderReport(title: string): string {
+        let report = `# Dry Run: ${title}\n\nNothing was pushed, created or posted.\n`;
+
+        for (const section of SECTIONS) {
+            const entries = this.entries.filter(entry => entry.kind === section.kind);
+            report += `\n## ${section.heading}\n\n`;
+
+            if (entries.length === 0) {
+                report += '_None_\n';
+                continue;
+            }
+
+            for (const entry of entries) {
+                if (entry.kind === 'warning') {
+                    report += `- ⚠️ ${entry.title}\n`;
+                    continue;
+                }
+
+                report += `### ${entry.title}\n\n`;
+                if (entry.body !== undefined) {
+                    report += `\`\`\`\`${entry.language || ''}\n${entry.body}\n\`\`\`\`\n\n`;
+                }
+            }
+        }
+
+        return report;
+    }
+
+    private formatJson(body: unknown): string {
+        try {
+            return JSON.stringify(typeof body === 'string' ? JSON.parse(body) : body, null, 2);
+        } catch (error) {
+            return String(body);
+        }
+    }
+}
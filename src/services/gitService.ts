@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { simpleGit, SimpleGit, StatusResult } from 'simple-git';
 import * as path from 'path';
+import { HostService } from './hostService';
 
 export interface GitChange {
     file: string;
@@ -16,27 +17,44 @@ export interface GitCommit {
     date: Date;
 }
 
+export type GitPlatform = 'github' | 'azure-devops' | 'gitlab' | 'bitbucket' | 'gitea' | 'unknown';
+
 export interface RepositoryInfo {
     remoteUrl: string;
     rootPath: string;
-    platform: 'github' | 'azure-devops' | 'gitlab' | 'unknown';
+    platform: GitPlatform;
+}
+
+export interface GitRemote {
+    name: string;
+    url: string;
+    platform: GitPlatform;
 }
 
 export class GitService {
     private git: SimpleGit | null = null;
 
+    /**
+     * @param repositoryPath Root of the repository to work on; defaults to the first workspace folder
+     */
+    constructor(private readonly repositoryPath?: string) {}
+
+    private getRepositoryPath(): string | undefined {
+        return this.repositoryPath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+
     private async getGit(): Promise<SimpleGit | null> {
         if (this.git) {
             return this.git;
         }
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        const repositoryPath = this.getRepositoryPath();
+        if (!repositoryPath) {
             return null;
         }
 
         try {
-            this.git = simpleGit(workspaceFolder.uri.fsPath);
+            this.git = simpleGit(repositoryPath);
             const isRepo = await this.git.checkIsRepo();
             if (!isRepo) {
                 return null;
@@ -63,11 +81,10 @@ export class GitService {
             }
 
             const remoteUrl = origin.refs.fetch;
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
             
             return {
                 remoteUrl,
-                rootPath: workspaceFolder?.uri.fsPath || '',
+                rootPath: this.getRepositoryPath() || '',
                 platform: this.detectPlatform(remoteUrl)
             };
         } catch (error) {
@@ -76,15 +93,89 @@ export class GitService {
         }
     }
 
-    private detectPlatform(remoteUrl: string): 'github' | 'azure-devops' | 'gitlab' | 'unknown' {
-        if (remoteUrl.includes('github.com')) {
-            return 'github';
-        } else if (remoteUrl.includes('dev.azure.com') || remoteUrl.includes('visualstudio.com')) {
-            return 'azure-devops';
-        } else if (remoteUrl.includes('gitlab.com') || remoteUrl.includes('gitlab')) {
-            return 'gitlab';
+    /**
+     * Lists the remotes with a fetch URL, e.g. a fork as "origin" and the original repository as "upstream"
+     */
+    async getRemotes(): Promise<GitRemote[]> {
+        const git = await this.getGit();
+        if (!git) {
+            return [];
+        }
+
+        try {
+            const remotes = await git.getRemotes(true);
+            return remotes
+                .filter(remote => remote.refs?.fetch)
+                .map(remote => ({
+                    name: remote.name,
+                    url: remote.refs.fetch,
+                    platform: this.detectPlatform(remote.refs.fetch)
+                }));
+        } catch (error) {
+            console.error('Error getting remotes:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Lists the branches of a remote, most recently updated first
+     */
+    async getRemoteBranches(remote: string = 'origin'): Promise<string[]> {
+        const git = await this.getGit();
+        if (!git) {
+            return [];
+        }
+
+        try {
+            const output = await git.raw(['for-each-ref', '--sort=-committerdate', '--format=%(refname:short)', `refs/remotes/${remote}`]);
+            return output.split('\n')
+                .map(ref => ref.trim())
+                .filter(ref => ref.startsWith(`${remote}/`) && ref !== `${remote}/HEAD`)
+                .map(ref => ref.slice(remote.length + 1));
+        } catch (error) {
+            console.error('Error getting remote branches:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Lists the paths changed on HEAD since it branched off baseRef, e.g. "origin/main"
+     */
+    async getChangedFilesSince(baseRef: string): Promise<string[]> {
+        const git = await this.getGit();
+        if (!git) {
+            return [];
         }
-        return 'unknown';
+
+        try {
+            const output = await git.raw(['diff', '--name-only', `${baseRef}...HEAD`]);
+            return output.split('\n').map(file => file.trim()).filter(file => file.length > 0);
+        } catch (error) {
+            console.error('Error getting changed files:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Returns the full messages of the commits on HEAD since it branched off baseRef, excluding merges
+     */
+    async getCommitMessagesSince(baseRef: string): Promise<string[]> {
+        const git = await this.getGit();
+        if (!git) {
+            return [];
+        }
+
+        try {
+            const output = await git.raw(['log', '--no-merges', '--format=%B%x00', `${baseRef}..HEAD`]);
+            return output.split('\0').map(message => message.trim()).filter(message => message.length > 0);
+        } catch (error) {
+            console.error('Error getting commit messages:', error);
+            return [];
+        }
+    }
+
+    private detectPlatform(remoteUrl: string): GitPlatform {
+        return new HostService().detectPlatform(remoteUrl);
     }
 
     async getCurrentBranch(): Promise<string> {
@@ -196,12 +287,12 @@ export class GitService {
         }
 
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            const repositoryPath = this.getRepositoryPath();
+            if (!repositoryPath) {
                 throw new Error('No workspace folder found');
             }
 
-            const fullPath = path.join(workspaceFolder.uri.fsPath, filePath);
+            const fullPath = path.join(repositoryPath, filePath);
             const document = await vscode.workspace.openTextDocument(fullPath);
             return document.getText();
         } catch (error) {
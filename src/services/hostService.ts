@@ -0,0 +1,69 @@
+import { ConfigurationService } from './configurationService';
+import { GitPlatform } from './gitService';
+
+export interface HostMapping {
+    platform: GitPlatform;
+    apiUrl?: string;
+}
+
+/**
+ * Resolves which platform serves a git remote and where its API lives.
+ * Entries in `smartPrCreator.hosts` take precedence over the built-in public hostnames,
+ * which is what makes GitHub Enterprise Server, Azure DevOps Server and self-managed
+ * GitLab instances work.
+ */
+export class HostService {
+    private configurationService = new ConfigurationService();
+
+    /**
+     * Extracts the lowercase hostname from HTTPS, ssh:// and scp-like remote URLs
+     */
+    getRemoteHost(remoteUrl: string): string {
+        const match = remoteUrl.trim().match(/^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:[^@/]+@)?([^/:]+)/i);
+        return match ? match[1].toLowerCase() : '';
+    }
+
+    getHostMapping(remoteUrl: string): HostMapping | undefined {
+        const host = this.getRemoteHost(remoteUrl);
+        const hosts = this.configurationService.get<{ [host: string]: HostMapping }>('hosts') || {};
+
+        const key = Object.keys(hosts).find(name => name.toLowerCase() === host);
+        if (key) {
+            return hosts[key];
+        }
+
+        // The deprecated "smartPrCreator.giteaHosts" setting maps its hostnames to Gitea
+        const giteaHost = this.configurationService.getGiteaHosts().some(name => name.trim().toLowerCase() === host);
+        return giteaHost ? { platform: 'gitea' } : undefined;
+    }
+
+    detectPlatform(remoteUrl: string): GitPlatform {
+        const mapping = this.getHostMapping(remoteUrl);
+        if (mapping?.platform) {
+            return mapping.platform;
+        }
+
+        if (remoteUrl.includes('gitea.com') || remoteUrl.includes('codeberg.org')) {
+            return 'gitea';
+        }
+
+        if (remoteUrl.includes('github.com')) {
+            return 'github';
+        } else if (remoteUrl.includes('dev.azure.com') || remoteUrl.includes('visualstudio.com')) {
+            return 'azure-devops';
+        } else if (remoteUrl.includes('gitlab.com') || remoteUrl.includes('gitlab')) {
+            return 'gitlab';
+        } else if (remoteUrl.includes('bitbucket.org') || remoteUrl.includes('bitbucket')) {
+            return 'bitbucket';
+        }
+        return 'unknown';
+    }
+
+    /**
+     * Returns the configured API base URL for the remote's host, or the given default
+     */
+    getApiUrl(remoteUrl: string, defaultUrl: string): string {
+        const apiUrl = this.getHostMapping(remoteUrl)?.apiUrl;
+        return (apiUrl || defaultUrl).replace(/\/+$/, '');
+    }
+}
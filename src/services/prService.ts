@@ -1,5 +1,18 @@
 import * as vscode from 'vscode';
-import axios from 'axios';
+import * as cp from 'child_process';
+import { promisify } from 'util';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { AZURE_MERGE_STRATEGIES, AzureMergeStrategy, WorkItemDetails } from './azureCliService';
+import { BranchPolicy, BranchPolicyService } from './branchPolicyService';
+import { DryRunService } from './dryRunService';
+import { GitPlatform } from './gitService';
+import { HostService } from './hostService';
+import { WebhookEvent, WebhookService, WebhookPayload } from './webhookService';
+
+const exec = promisify(cp.exec);
+
+// Azure DevOps answers requests with an invalid token with a 203 sign-in page instead of a 401
+const isAzureDevOpsSuccess = (status: number) => status >= 200 && status < 300 && status !== 203;
 
 export interface PRRequest {
     title: string;
@@ -7,6 +20,24 @@ export interface PRRequest {
     sourceBranch: string;
     targetBranch: string;
     repositoryUrl: string;
+    // Fork the source branch lives in, when it differs from the repository the PR is opened against
+    sourceRepositoryUrl?: string;
+    platform?: GitPlatform;
+    isDraft?: boolean;
+    reviewers?: string[];
+    teamReviewers?: string[];
+    labels?: string[];
+    assignees?: string[];
+    milestone?: number;
+    squash?: boolean;
+    deleteSourceBranch?: boolean;
+    closesIssues?: string[];
+    workItems?: string[];
+    requiredReviewers?: string[];
+    autoComplete?: boolean;
+    mergeStrategy?: AzureMergeStrategy;
+    transitionWorkItems?: boolean;
+    mergeCommitMessage?: string;
 }
 
 export interface PRResponse {
@@ -15,141 +46,1537 @@ export interface PRResponse {
     number: number;
 }
 
+/**
+ * An open pull request found for a source/target branch pair
+ */
+export interface ExistingPR extends PRResponse {
+    title: string;
+    description: string;
+    isDraft: boolean;
+}
+
+export interface PRUpdateRequest {
+    number: number;
+    title: string;
+    description: string;
+    sourceBranch: string;
+    targetBranch: string;
+    repositoryUrl: string;
+    platform?: GitPlatform;
+    isDraft?: boolean;
+    publish?: boolean;
+    reviewers?: string[];
+}
+
+export interface PRMilestone {
+    number: number;
+    title: string;
+}
+
 export class PRService {
     private config = vscode.workspace.getConfiguration('smartPrCreator');
+    private webhookService: WebhookService;
+    private tokens = new Map<string, string>();
+    private gitLabProjectIds = new Map<string, number>();
+    private hostService = new HostService();
+    private http: AxiosInstance;
 
-    async createPullRequest(request: PRRequest): Promise<string> {
-        const platform = this.detectPlatform(request.repositoryUrl);
-        
+    /**
+     * @param dryRun When given, API writes and webhooks are recorded instead of sent
+     * @param webhookService Shared webhook service; one is created when not given
+     */
+    constructor(dryRun?: DryRunService, webhookService?: WebhookService) {
+        this.http = dryRun ? dryRun.createHttpClient() : axios;
+        this.webhookService = webhookService ?? new WebhookService(dryRun);
+    }
+
+    /**
+     * Returns a PR service that records API writes and webhooks for the dry run, reusing the tokens entered so far
+     */
+    withDryRun(dryRun: DryRunService): PRService {
+        const service = new PRService(dryRun, this.webhookService.withDryRun(dryRun));
+        service.tokens = this.tokens;
+        service.gitLabProjectIds = this.gitLabProjectIds;
+        return service;
+    }
+
+    /**
+     * Creates a pull request on the platform hosting the repository.
+     * When a workspace folder is given, the pr_created webhook is sent afterwards.
+     */
+    async createPullRequest(request: PRRequest, workspaceFolder?: string): Promise<PRResponse> {
+        const platform = request.platform || this.detectPlatform(request.repositoryUrl);
+
+        let response: PRResponse;
+        switch (platform) {
+            case 'github':
+                response = await this.createGitHubPR(request);
+                break;
+            case 'azure-devops':
+                response = await this.createAzureDevOpsPR(request);
+                break;
+            case 'gitlab':
+                response = await this.createGitLabPR(request);
+                break;
+            case 'bitbucket':
+                response = await this.createBitbucketPR(request);
+                break;
+            case 'gitea':
+                response = await this.createGiteaPR(request);
+                break;
+            default:
+                throw new Error(`Unsupported platform: ${platform}`);
+        }
+
+        if (workspaceFolder) {
+            await this.sendPRWebhook('pr_created', request, response, workspaceFolder);
+        }
+
+        return response;
+    }
+
+    /**
+     * Looks up the open pull request from the source branch into the target branch, if there is one.
+     * With a source repository the branch has to come from that fork, otherwise from the repository itself.
+     */
+    async findExistingPullRequest(
+        repositoryUrl: string,
+        sourceBranch: string,
+        targetBranch: string,
+        platform?: GitPlatform,
+        sourceRepositoryUrl?: string
+    ): Promise<ExistingPR | null> {
+        switch (platform || this.detectPlatform(repositoryUrl)) {
+            case 'github':
+                return this.findGitHubPR(repositoryUrl, sourceBranch, targetBranch, sourceRepositoryUrl);
+            case 'azure-devops':
+                return this.findAzureDevOpsPR(repositoryUrl, sourceBranch, targetBranch, sourceRepositoryUrl);
+            case 'gitlab':
+                return this.findGitLabPR(repositoryUrl, sourceBranch, targetBranch, sourceRepositoryUrl);
+            case 'bitbucket':
+                return this.findBitbucketPR(repositoryUrl, sourceBranch, targetBranch, sourceRepositoryUrl);
+            case 'gitea':
+                return this.findGiteaPR(repositoryUrl, sourceBranch, targetBranch, sourceRepositoryUrl);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Updates the title and description of an existing pull request, adds reviewers and optionally publishes a draft.
+     * When a workspace folder is given, the pr_updated webhook is sent afterwards.
+     */
+    async updatePullRequest(request: PRUpdateRequest, workspaceFolder?: string): Promise<PRResponse> {
+        const platform = request.platform || this.detectPlatform(request.repositoryUrl);
+
+        let response: PRResponse;
         switch (platform) {
             case 'github':
-                return this.createGitHubPR(request);
+                response = await this.updateGitHubPR(request);
+                break;
             case 'azure-devops':
-                return this.createAzureDevOpsPR(request);
+                response = await this.updateAzureDevOpsPR(request);
+                break;
             case 'gitlab':
-                return this.createGitLabPR(request);
+                response = await this.updateGitLabPR(request);
+                break;
+            case 'bitbucket':
+                response = await this.updateBitbucketPR(request);
+                break;
+            case 'gitea':
+                response = await this.updateGiteaPR(request);
+                break;
             default:
                 throw new Error(`Unsupported platform: ${platform}`);
         }
+
+        if (workspaceFolder) {
+            await this.sendPRWebhook('pr_updated', request, response, workspaceFolder);
+        }
+
+        return response;
+    }
+
+    /**
+     * Lists users that can be requested as reviewers on the repository
+     */
+    async listAvailableReviewers(repositoryUrl: string, platform?: GitPlatform): Promise<string[]> {
+        try {
+            switch (platform || this.detectPlatform(repositoryUrl)) {
+                case 'github': {
+                    const token = await this.getGitHubToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const { apiUrl, owner, repo } = this.parseGitHubUrl(repositoryUrl);
+                    const response = await this.http.get(
+                        `${apiUrl}/repos/${owner}/${repo}/collaborators`,
+                        {
+                            headers: this.getGitHubHeaders(token),
+                            params: { per_page: 100 }
+                        }
+                    );
+                    const users: string[] = response.data.map((user: any) => user.login);
+
+                    // Teams are listed as "org/team-slug" so they can be picked alongside users
+                    const teams = await this.http.get(
+                        `${apiUrl}/repos/${owner}/${repo}/teams`,
+                        {
+                            headers: this.getGitHubHeaders(token),
+                            params: { per_page: 100 }
+                        }
+                    ).then(teamResponse => teamResponse.data.map((team: any) => `${owner}/${team.slug}`))
+                        .catch(() => [] as string[]);
+
+                    return [...users, ...teams];
+                }
+                case 'azure-devops': {
+                    const token = await this.getAzureDevOpsToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    return await this.getAzureDevOpsTeamMembers(repositoryUrl, token);
+                }
+                case 'gitlab': {
+                    const token = await this.getGitLabToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const { apiUrl, projectId } = await this.resolveGitLabProject(repositoryUrl, token);
+                    const members = await this.getGitLabMembers(apiUrl, projectId, token);
+                    return members.map(member => member.username);
+                }
+                case 'bitbucket': {
+                    const authorization = await this.getBitbucketAuthorization();
+                    if (!authorization) {
+                        return [];
+                    }
+
+                    const users = await this.getBitbucketUsers(this.parseBitbucketUrl(repositoryUrl), authorization);
+                    return users.map(user => user.name);
+                }
+                case 'gitea': {
+                    const token = await this.getGiteaToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const { apiUrl, owner, repo } = this.parseGiteaUrl(repositoryUrl);
+                    const users = await this.getGiteaPages(`${apiUrl}/repos/${owner}/${repo}/collaborators`, token);
+                    return users.map((user: any) => user.login);
+                }
+                default:
+                    return [];
+            }
+        } catch (error) {
+            console.error('Error getting reviewers:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Lists the labels that can be applied to a pull request
+     */
+    async listLabels(repositoryUrl: string, platform?: GitPlatform): Promise<string[]> {
+        try {
+            switch (platform || this.detectPlatform(repositoryUrl)) {
+                case 'github': {
+                    const token = await this.getGitHubToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const { apiUrl, owner, repo } = this.parseGitHubUrl(repositoryUrl);
+                    const response = await this.http.get(
+                        `${apiUrl}/repos/${owner}/${repo}/labels`,
+                        {
+                            headers: this.getGitHubHeaders(token),
+                            params: { per_page: 100 }
+                        }
+                    );
+                    return response.data.map((label: any) => label.name);
+                }
+                case 'gitlab': {
+                    const token = await this.getGitLabToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const { apiUrl, projectId } = await this.resolveGitLabProject(repositoryUrl, token);
+                    const response = await this.http.get(
+                        `${apiUrl}/projects/${projectId}/labels`,
+                        {
+                            headers: { 'Authorization': `Bearer ${token}` },
+                            params: { per_page: 100 }
+                        }
+                    );
+                    return response.data.map((label: any) => label.name);
+                }
+                case 'gitea': {
+                    const token = await this.getGiteaToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const labels = await this.getGiteaLabels(repositoryUrl, token);
+                    return labels.map(label => label.name);
+                }
+                default:
+                    return [];
+            }
+        } catch (error) {
+            console.error('Error getting labels:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Lists the open milestones a pull request can be attached to
+     */
+    async listMilestones(repositoryUrl: string, platform?: GitPlatform): Promise<PRMilestone[]> {
+        try {
+            switch (platform || this.detectPlatform(repositoryUrl)) {
+                case 'github': {
+                    const token = await this.getGitHubToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const { apiUrl, owner, repo } = this.parseGitHubUrl(repositoryUrl);
+                    const response = await this.http.get(
+                        `${apiUrl}/repos/${owner}/${repo}/milestones`,
+                        {
+                            headers: this.getGitHubHeaders(token),
+                            params: { state: 'open', per_page: 100 }
+                        }
+                    );
+                    return response.data.map((milestone: any) => ({ number: milestone.number, title: milestone.title }));
+                }
+                case 'gitlab': {
+                    const token = await this.getGitLabToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    // GitLab references milestones by their global id rather than the project-scoped iid
+                    const { apiUrl, projectId } = await this.resolveGitLabProject(repositoryUrl, token);
+                    const response = await this.http.get(
+                        `${apiUrl}/projects/${projectId}/milestones`,
+                        {
+                            headers: { 'Authorization': `Bearer ${token}` },
+                            params: { state: 'active', per_page: 100 }
+                        }
+                    );
+                    return response.data.map((milestone: any) => ({ number: milestone.id, title: milestone.title }));
+                }
+                case 'gitea': {
+                    const token = await this.getGiteaToken();
+                    if (!token) {
+                        return [];
+                    }
+
+                    const { apiUrl, owner, repo } = this.parseGiteaUrl(repositoryUrl);
+                    const milestones = await this.getGiteaPages(`${apiUrl}/repos/${owner}/${repo}/milestones`, token, { state: 'open' });
+                    return milestones.map((milestone: any) => ({ number: milestone.id, title: milestone.title }));
+                }
+                default:
+                    return [];
+            }
+        } catch (error) {
+            console.error('Error getting milestones:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Looks up Azure Boards work items, leaving out IDs that do not exist.
+     * Returns null when they cannot be looked up, e.g. without a token.
+     */
+    async getAzureDevOpsWorkItems(repositoryUrl: string, ids: string[]): Promise<WorkItemDetails[] | null> {
+        try {
+            const token = await this.getAzureDevOpsToken();
+            if (!token) {
+                return null;
+            }
+
+            // errorPolicy=omit answers missing work items with null instead of failing the whole batch
+            const { organizationUrl, project } = this.parseAzureDevOpsUrl(repositoryUrl);
+            const { data } = await this.http.get(
+                `${organizationUrl}/${project}/_apis/wit/workitems`,
+                {
+                    headers: this.getAzureDevOpsHeaders(token),
+                    params: {
+                        ids: ids.filter(id => /^\d+$/.test(id)).join(','),
+                        fields: 'System.Title,System.WorkItemType,System.State,Microsoft.VSTS.Common.AcceptanceCriteria',
+                        errorPolicy: 'omit',
+                        'api-version': '7.0'
+                    }
+                }
+            );
+
+            return data.value
+                .filter((item: any) => item)
+                .map((item: any) => ({
+                    id: String(item.id),
+                    title: item.fields['System.Title'] || '',
+                    type: item.fields['System.WorkItemType'] || 'Work Item',
+                    state: item.fields['System.State'] || '',
+                    acceptanceCriteria: item.fields['Microsoft.VSTS.Common.AcceptanceCriteria']
+                }));
+        } catch (error) {
+            console.error('Error getting work items:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Returns the enabled branch policies of an Azure DevOps target branch, or null when they cannot be read
+     */
+    async getAzureDevOpsBranchPolicies(repositoryUrl: string, targetBranch: string): Promise<BranchPolicy[] | null> {
+        try {
+            const token = await this.getAzureDevOpsToken();
+            if (!token) {
+                return null;
+            }
+
+            const { organizationUrl, project, repo } = this.parseAzureDevOpsUrl(repositoryUrl);
+            const headers = this.getAzureDevOpsHeaders(token);
+            const repository = await this.http.get(
+                `${organizationUrl}/${project}/_apis/git/repositories/${repo}`,
+                { headers, params: { 'api-version': '7.0' } }
+            );
+            const { data } = await this.http.get(
+                `${organizationUrl}/${project}/_apis/git/policy/configurations`,
+                {
+                    headers,
+                    params: {
+                        repositoryId: repository.data.id,
+                        refName: `refs/heads/${targetBranch}`,
+                        'api-version': '7.0'
+                    }
+                }
+            );
+
+            return new BranchPolicyService().parse(data.value || []);
+        } catch (error) {
+            console.error('Error getting branch policies:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Moves Azure Boards work items to the given state, e.g. "In Review", warning about the ones that cannot be moved
+     */
+    async setAzureDevOpsWorkItemState(repositoryUrl: string, ids: string[], state: string): Promise<void> {
+        const token = await this.getAzureDevOpsToken();
+        if (!token) {
+            throw new Error('Azure DevOps token not found. Please authenticate with Azure DevOps.');
+        }
+
+        const { organizationUrl, project } = this.parseAzureDevOpsUrl(repositoryUrl);
+        for (const id of ids) {
+            try {
+                await this.http.patch(
+                    `${organizationUrl}/${project}/_apis/wit/workitems/${id}?api-version=7.0`,
+                    [{ op: 'add', path: '/fields/System.State', value: state }],
+                    { headers: { ...this.getAzureDevOpsHeaders(token), 'Content-Type': 'application/json-patch+json' } }
+                );
+            } catch (error: any) {
+                vscode.window.showWarningMessage(`Could not move work item ${id} to "${state}": ${error.response?.data?.message || error.message}`);
+            }
+        }
+    }
+
+    private detectPlatform(repositoryUrl: string): GitPlatform {
+        return this.hostService.detectPlatform(repositoryUrl);
+    }
+
+    private async createGitHubPR(request: PRRequest): Promise<PRResponse> {
+        try {
+            const token = await this.getGitHubToken();
+            if (!token) {
+                throw new Error('GitHub token not found. Please authenticate with GitHub.');
+            }
+
+            const { apiUrl, owner, repo } = this.parseGitHubUrl(request.repositoryUrl);
+
+            // Cross-repository PRs name the head branch as "fork-owner:branch"
+            const head = request.sourceRepositoryUrl
+                ? `${this.parseGitHubUrl(request.sourceRepositoryUrl).owner}:${request.sourceBranch}`
+                : request.sourceBranch;
+            
+            const response = await this.http.post(
+                `${apiUrl}/repos/${owner}/${repo}/pulls`,
+                {
+                    title: request.title,
+                    body: request.description,
+                    head,
+                    base: request.targetBranch,
+                    draft: request.isDraft || false
+                },
+                {
+                    headers: this.getGitHubHeaders(token)
+                }
+            );
+
+            const pullRequest: PRResponse = {
+                id: response.data.id,
+                number: response.data.number,
+                url: response.data.html_url
+            };
+
+            // The PR exists at this point, so a failing follow-up call only warns
+            try {
+                await this.applyGitHubPROptions(apiUrl, owner, repo, pullRequest.number, request, token);
+            } catch (error: any) {
+                vscode.window.showWarningMessage(`Pull request #${pullRequest.number} was created, but some options could not be applied: ${error.message}`);
+            }
+
+            return pullRequest;
+        } catch (error: any) {
+            if (error.response?.status === 401) {
+                throw new Error('GitHub authentication failed. Please check your token.');
+            } else if (error.response?.status === 422) {
+                throw new Error('Pull request could not be created. Check if it already exists or if the branches are valid.');
+            }
+            throw new Error(`GitHub API error: ${error.message}`);
+        }
+    }
+
+    private async findGitHubPR(
+        repositoryUrl: string,
+        sourceBranch: string,
+        targetBranch: string,
+        sourceRepositoryUrl?: string
+    ): Promise<ExistingPR | null> {
+        const token = await this.getGitHubToken();
+        if (!token) {
+            return null;
+        }
+
+        const { apiUrl, owner, repo } = this.parseGitHubUrl(repositoryUrl);
+        const headOwner = sourceRepositoryUrl ? this.parseGitHubUrl(sourceRepositoryUrl).owner : owner;
+        const response = await this.http.get(
+            `${apiUrl}/repos/${owner}/${repo}/pulls`,
+            {
+                headers: this.getGitHubHeaders(token),
+                params: { state: 'open', head: `${headOwner}:${sourceBranch}`, base: targetBranch }
+            }
+        );
+
+        const pullRequest = response.data[0];
+        return pullRequest ? {
+            id: pullRequest.id,
+            number: pullRequest.number,
+            url: pullRequest.html_url,
+            title: pullRequest.title,
+            description: pullRequest.body || '',
+            isDraft: pullRequest.draft || false
+        } : null;
+    }
+
+    private async updateGitHubPR(request: PRUpdateRequest): Promise<PRResponse> {
+        try {
+            const token = await this.getGitHubToken();
+            if (!token) {
+                throw new Error('GitHub token not found. Please authenticate with GitHub.');
+            }
+
+            const { apiUrl, owner, repo } = this.parseGitHubUrl(request.repositoryUrl);
+
+            const response = await this.http.patch(
+                `${apiUrl}/repos/${owner}/${repo}/pulls/${request.number}`,
+                { title: request.title, body: request.description },
+                { headers: this.getGitHubHeaders(token) }
+            );
+
+            // The REST API cannot take a pull request out of draft, only GraphQL can
+            if (request.publish) {
+                const { data: published } = await this.http.post(
+                    `${apiUrl.replace(/\/v3$/, '')}/graphql`,
+                    {
+                        query: 'mutation($id: ID!) { markPullRequestReadyForReview(input: { pullRequestId: $id }) { clientMutationId } }',
+                        variables: { id: response.data.node_id }
+                    },
+                    { headers: this.getGitHubHeaders(token) }
+                );
+                // GraphQL reports failures in the response body with a 200 status
+                if (published.errors?.length) {
+                    throw new Error(`could not mark the pull request ready for review: ${published.errors.map((error: any) => error.message).join('; ')}`);
+                }
+            }
+
+            if (request.reviewers && request.reviewers.length > 0) {
+                await this.applyGitHubPROptions(apiUrl, owner, repo, request.number, request, token);
+            }
+
+            return {
+                id: response.data.id,
+                number: response.data.number,
+                url: response.data.html_url
+            };
+        } catch (error: any) {
+            if (error.response?.status === 401) {
+                throw new Error('GitHub authentication failed. Please check your token.');
+            }
+            throw new Error(`GitHub API error: ${error.message}`);
+        }
+    }
+
+    private async applyGitHubPROptions(
+        apiUrl: string,
+        owner: string,
+        repo: string,
+        pullNumber: number,
+        request: PRRequest,
+        token: string
+    ): Promise<void> {
+        // Reviewers given as "org/team-slug" are requested as team reviewers
+        const reviewers = (request.reviewers || []).filter(reviewer => !reviewer.includes('/'));
+        const teamReviewers = [
+            ...(request.teamReviewers || []),
+            ...(request.reviewers || []).filter(reviewer => reviewer.includes('/'))
+        ].map(team => team.split('/').pop()!);
+
+        if (reviewers.length > 0 || teamReviewers.length > 0) {
+            await this.http.post(
+                `${apiUrl}/repos/${owner}/${repo}/pulls/${pullNumber}/requested_reviewers`,
+                { reviewers, team_reviewers: teamReviewers },
+                { headers: this.getGitHubHeaders(token) }
+            );
+        }
+
+        // Labels, assignees and milestone live on the issue that backs the pull request
+        const issueUpdate: { labels?: string[]; assignees?: string[]; milestone?: number } = {};
+        if (request.labels && request.labels.length > 0) {
+            issueUpdate.labels = request.labels;
+        }
+        if (request.assignees && request.assignees.length > 0) {
+            issueUpdate.assignees = request.assignees;
+        }
+        if (request.milestone !== undefined) {
+            issueUpdate.milestone = request.milestone;
+        }
+
+        if (Object.keys(issueUpdate).length > 0) {
+            await this.http.patch(
+                `${apiUrl}/repos/${owner}/${repo}/issues/${pullNumber}`,
+                issueUpdate,
+                { headers: this.getGitHubHeaders(token) }
+            );
+        }
+    }
+
+    private async createAzureDevOpsPR(request: PRRequest): Promise<PRResponse> {
+        try {
+            const token = await this.getAzureDevOpsToken();
+            if (!token) {
+                throw new Error('Azure DevOps token not found. Please authenticate with Azure DevOps.');
+            }
+
+            const { organizationUrl, project, repo } = this.parseAzureDevOpsUrl(request.repositoryUrl);
+            const headers = this.getAzureDevOpsHeaders(token);
+            const config = { headers, validateStatus: isAzureDevOpsSuccess };
+
+            // Reviewers are referenced by identity id; required ones block completion until they approve
+            const requiredReviewers = request.requiredReviewers || [];
+            const reviewerNames = [...new Set([...(request.reviewers || []), ...requiredReviewers])];
+            const reviewers: Array<{ id: string; isRequired: boolean }> = [];
+            for (const name of reviewerNames) {
+                const id = await this.resolveAzureDevOpsIdentity(organizationUrl, name, token);
+                if (id) {
+                    reviewers.push({ id, isRequired: requiredReviewers.includes(name) });
+                } else {
+                    vscode.window.showWarningMessage(`Could not find Azure DevOps user "${name}"; skipping reviewer.`);
+                }
+            }
+            
+            const body: { [key: string]: any } = {
+                sourceRefName: `refs/heads/${request.sourceBranch}`,
+                targetRefName: `refs/heads/${request.targetBranch}`,
+                title: request.title,
+                description: request.description,
+                isDraft: request.isDraft || false,
+                reviewers,
+                workItemRefs: (request.workItems || []).map(id => ({ id })),
+                labels: (request.labels || []).map(name => ({ name }))
+            };
+
+            // Pull requests from a fork reference the fork repository by id
+            if (request.sourceRepositoryUrl) {
+                body.forkSource = { repository: { id: await this.getAzureDevOpsRepositoryId(request.sourceRepositoryUrl, config) } };
+            }
+
+            const response = await this.http.post(
+                `${organizationUrl}/${project}/_apis/git/repositories/${repo}/pullrequests?api-version=7.0`,
+                body,
+                config
+            );
+
+            const prId = response.data.pullRequestId;
+
+            const completionOptions = {
+                mergeStrategy: request.mergeStrategy ? AZURE_MERGE_STRATEGIES[request.mergeStrategy] : undefined,
+                deleteSourceBranch: request.deleteSourceBranch || false,
+                transitionWorkItems: request.transitionWorkItems || false,
+                mergeCommitMessage: request.mergeCommitMessage
+            };
+            const hasCompletionOptions = request.mergeStrategy || request.deleteSourceBranch
+                || request.transitionWorkItems || request.mergeCommitMessage;
+
+            if (request.autoComplete || hasCompletionOptions) {
+                try {
+                    const update: any = { completionOptions };
+                    if (request.autoComplete) {
+                        const { data: connection } = await this.http.get(
+                            `${organizationUrl}/_apis/connectionData`,
+                            config
+                        );
+                        update.autoCompleteSetBy = { id: connection.authenticatedUser.id };
+                    }
+
+                    await this.http.patch(
+                        `${organizationUrl}/${project}/_apis/git/repositories/${repo}/pullrequests/${prId}?api-version=7.0`,
+                        update,
+                        config
+                    );
+                } catch (error: any) {
+                    vscode.window.showWarningMessage(`Pull request #${prId} was created, but its completion options could not be set: ${error.message}`);
+                }
+            }
+
+            return {
+                id: prId,
+                number: prId,
+                url: `${organizationUrl}/${project}/_git/${repo}/pullrequest/${prId}`
+            };
+        } catch (error: any) {
+            if (error.response?.status === 401 || error.response?.status === 203) {
+                throw new Error('Azure DevOps authentication failed. Please check your token.');
+            } else if (error.response?.status === 409) {
+                throw new Error('A pull request already exists for this branch.');
+            }
+            throw new Error(`Azure DevOps API error: ${error.response?.data?.message || error.message}`);
+        }
+    }
+
+    private async findAzureDevOpsPR(
+        repositoryUrl: string,
+        sourceBranch: string,
+        targetBranch: string,
+        sourceRepositoryUrl?: string
+    ): Promise<ExistingPR | null> {
+        const token = await this.getAzureDevOpsToken();
+        if (!token) {
+            return null;
+        }
+
+        const { organizationUrl, project, repo } = this.parseAzureDevOpsUrl(repositoryUrl);
+        const headers = this.getAzureDevOpsHeaders(token);
+        const response = await this.http.get(
+            `${organizationUrl}/${project}/_apis/git/repositories/${repo}/pullrequests`,
+            {
+                headers,
+                params: {
+                    'searchCriteria.sourceRefName': `refs/heads/${sourceBranch}`,
+                    'searchCriteria.targetRefName': `refs/heads/${targetBranch}`,
+                    'searchCriteria.status': 'active',
+                    'api-version': '7.0'
+                }
+            }
+        );
+
+        // Pull requests from a fork reference it by id in forkSource; forks usually keep the upstream name
+        const forkId = sourceRepositoryUrl
+            ? await this.getAzureDevOpsRepositoryId(sourceRepositoryUrl, { headers, validateStatus: isAzureDevOpsSuccess })
+            : undefined;
+        const pullRequest = (response.data.value || []).find((pr: any) => pr.forkSource?.repository?.id === forkId);
+        return pullRequest ? {
+            id: pullRequest.pullRequestId,
+            number: pullRequest.pullRequestId,
+            url: `${organizationUrl}/${project}/_git/${repo}/pullrequest/${pullRequest.pullRequestId}`,
+            title: pullRequest.title,
+            description: pullRequest.description || '',
+            isDraft: pullRequest.isDraft || false
+        } : null;
+    }
+
+    private async getAzureDevOpsRepositoryId(repositoryUrl: string, config: AxiosRequestConfig): Promise<string> {
+        const { organizationUrl, project, repo } = this.parseAzureDevOpsUrl(repositoryUrl);
+        const { data: repository } = await this.http.get(
+            `${organizationUrl}/${project}/_apis/git/repositories/${repo}?api-version=7.0`,
+            config
+        );
+        return repository.id;
+    }
+
+    private async updateAzureDevOpsPR(request: PRUpdateRequest): Promise<PRResponse> {
+        try {
+            const token = await this.getAzureDevOpsToken();
+            if (!token) {
+                throw new Error('Azure DevOps token not found. Please authenticate with Azure DevOps.');
+            }
+
+            const { organizationUrl, project, repo } = this.parseAzureDevOpsUrl(request.repositoryUrl);
+            const headers = this.getAzureDevOpsHeaders(token);
+            const config = { headers, validateStatus: isAzureDevOpsSuccess };
+            const pullRequestUrl = `${organizationUrl}/${project}/_apis/git/repositories/${repo}/pullrequests/${request.number}`;
+
+            const update: { [key: string]: any } = { title: request.title, description: request.description };
+            if (request.publish) {
+                update.isDraft = false;
+            }
+            await this.http.patch(`${pullRequestUrl}?api-version=7.0`, update, config);
+
+            for (const name of request.reviewers || []) {
+                const id = await this.resolveAzureDevOpsIdentity(organizationUrl, name, token);
+                if (id) {
+                    await this.http.put(
+                        `${pullRequestUrl}/reviewers/${id}?api-version=7.0`,
+                        { vote: 0 },
+                        config
+                    );
+                } else {
+                    vscode.window.showWarningMessage(`Could not find Azure DevOps user "${name}"; skipping reviewer.`);
+                }
+            }
+
+            return {
+                id: request.number,
+                number: request.number,
+                url: `${organizationUrl}/${project}/_git/${repo}/pullrequest/${request.number}`
+            };
+        } catch (error: any) {
+            if (error.response?.status === 401 || error.response?.status === 203) {
+                throw new Error('Azure DevOps authentication failed. Please check your token.');
+            }
+            throw new Error(`Azure DevOps API error: ${error.response?.data?.message || error.message}`);
+        }
+    }
+
+    /**
+     * Looks up the identity id for a user name, email or display name
+     */
+    private async resolveAzureDevOpsIdentity(organizationUrl: string, name: string, token: string): Promise<string | null> {
+        try {
+            const response = await this.http.get(
+                `${this.getAzureDevOpsIdentityUrl(organizationUrl)}/_apis/identities`,
+                {
+                    headers: this.getAzureDevOpsHeaders(token),
+                    params: { searchFilter: 'General', filterValue: name, 'api-version': '7.0' }
+                }
+            );
+            return response.data.value?.[0]?.id || null;
+        } catch (error) {
+            console.error(`Error resolving Azure DevOps identity ${name}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Identities live on the vssps host for Azure DevOps Services and on the collection for Azure DevOps Server
+     */
+    private getAzureDevOpsIdentityUrl(organizationUrl: string): string {
+        const url = new URL(organizationUrl);
+        if (url.hostname === 'dev.azure.com') {
+            return `https://vssps.dev.azure.com${url.pathname}`;
+        } else if (url.hostname.endsWith('.visualstudio.com')) {
+            return `https://${url.hostname.replace('.visualstudio.com', '.vssps.visualstudio.com')}`;
+        }
+        return organizationUrl;
+    }
+
+    private async getAzureDevOpsTeamMembers(repositoryUrl: string, token: string): Promise<string[]> {
+        const { organizationUrl, project } = this.parseAzureDevOpsUrl(repositoryUrl);
+        const headers = this.getAzureDevOpsHeaders(token);
+
+        const { data: teams } = await this.http.get(
+            `${organizationUrl}/_apis/projects/${project}/teams?api-version=7.0`,
+            { headers }
+        );
+
+        const members = new Set<string>();
+        for (const team of teams.value) {
+            const { data } = await this.http.get(
+                `${organizationUrl}/_apis/projects/${project}/teams/${team.id}/members?api-version=7.0`,
+                { headers }
+            );
+            data.value.forEach((member: any) => members.add(member.identity.uniqueName));
+        }
+
+        return Array.from(members);
+    }
+
+    private getAzureDevOpsHeaders(token: string): { [key: string]: string } {
+        return {
+            'Authorization': `Basic ${Buffer.from(`:${token}`).toString('base64')}`,
+            'Content-Type': 'application/json'
+        };
+    }
+
+    private async createGitLabPR(request: PRRequest): Promise<PRResponse> {
+        try {
+            const token = await this.getGitLabToken();
+            if (!token) {
+                throw new Error('GitLab token not found. Please authenticate with GitLab.');
+            }
+
+            const { apiUrl, projectId } = await this.resolveGitLabProject(request.repositoryUrl, token);
+
+            // GitLab marks merge requests as drafts through the title prefix
+            const title = request.isDraft && !/^(draft:|\[draft\])/i.test(request.title)
+                ? `Draft: ${request.title}`
+                : request.title;
+
+            // Closing patterns in the description close the issues once the MR is merged
+            let description = request.description;
+            if (request.closesIssues && request.closesIssues.length > 0) {
+                description += `\n\n${request.closesIssues.map(issue => `Closes #${issue.replace(/^#/, '')}`).join('\n')}`;
+            }
+
+            const body: { [key: string]: any } = {
+                source_branch: request.sourceBranch,
+                target_branch: request.targetBranch,
+                title,
+                description,
+                squash: request.squash || false,
+                remove_source_branch: request.deleteSourceBranch || false
+            };
+
+            const usernames = [...(request.reviewers || []), ...(request.assignees || [])];
+            if (usernames.length > 0) {
+                const userIds = await this.resolveGitLabUserIds(apiUrl, projectId, usernames, token);
+                body.reviewer_ids = (request.reviewers || []).map(name => userIds.get(name)).filter(id => id !== undefined);
+                body.assignee_ids = (request.assignees || []).map(name => userIds.get(name)).filter(id => id !== undefined);
+            }
+
+            if (request.labels && request.labels.length > 0) {
+                body.labels = request.labels.join(',');
+            }
+
+            if (request.milestone !== undefined) {
+                body.milestone_id = request.milestone;
+            }
+
+            // Merge requests from a fork are opened on the fork and target the upstream project
+            let sourceProjectId = projectId;
+            if (request.sourceRepositoryUrl) {
+                sourceProjectId = (await this.resolveGitLabProject(request.sourceRepositoryUrl, token)).projectId;
+                body.target_project_id = projectId;
+            }
+            
+            const response = await this.http.post(
+                `${apiUrl}/projects/${sourceProjectId}/merge_requests`,
+                body,
+                {
+                    headers: {
+                        'Authorization': `Bearer ${token}`,
+                        'Content-Type': 'application/json'
+                    }
+                }
+            );
+
+            return {
+                id: response.data.id,
+                number: response.data.iid,
+                url: response.data.web_url
+            };
+        } catch (error: any) {
+            if (error.response?.status === 401) {
+                throw new Error('GitLab authentication failed. Please check your token.');
+            } else if (error.response?.status === 409) {
+                throw new Error('A merge request already exists for this source branch.');
+            }
+            throw new Error(`GitLab API error: ${error.response?.data?.message || error.message}`);
+        }
+    }
+
+    private async findGitLabPR(
+        repositoryUrl: string,
+        sourceBranch: string,
+        targetBranch: string,
+        sourceRepositoryUrl?: string
+    ): Promise<ExistingPR | null> {
+        const token = await this.getGitLabToken();
+        if (!token) {
+            return null;
+        }
+
+        const { apiUrl, projectId } = await this.resolveGitLabProject(repositoryUrl, token);
+        const sourceProjectId = sourceRepositoryUrl
+            ? (await this.resolveGitLabProject(sourceRepositoryUrl, token)).projectId
+            : projectId;
+        const response = await this.http.get(
+            `${apiUrl}/projects/${projectId}/merge_requests`,
+            {
+                headers: { 'Authorization': `Bearer ${token}` },
+                params: { state: 'opened', source_branch: sourceBranch, target_branch: targetBranch }
+            }
+        );
+
+        const mergeRequest = response.data.find((mr: any) => mr.source_project_id === sourceProjectId);
+        return mergeRequest ? {
+            id: mergeRequest.id,
+            number: mergeRequest.iid,
+            url: mergeRequest.web_url,
+            title: mergeRequest.title.replace(/^(draft:|\[draft\])\s*/i, ''),
+            description: mergeRequest.description || '',
+            isDraft: mergeRequest.draft || false
+        } : null;
+    }
+
+    private async updateGitLabPR(request: PRUpdateRequest): Promise<PRResponse> {
+        try {
+            const token = await this.getGitLabToken();
+            if (!token) {
+                throw new Error('GitLab token not found. Please authenticate with GitLab.');
+            }
+
+            const { apiUrl, projectId } = await this.resolveGitLabProject(request.repositoryUrl, token);
+            const headers = { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' };
+            const mergeRequestUrl = `${apiUrl}/projects/${projectId}/merge_requests/${request.number}`;
+
+            // Drafts stay drafts through the title prefix unless they are being published
+            const body: { [key: string]: any } = {
+                title: request.isDraft && !request.publish ? `Draft: ${request.title}` : request.title,
+                description: request.description
+            };
+
+            // reviewer_ids replaces the reviewer list, so keep the existing reviewers
+            if (request.reviewers && request.reviewers.length > 0) {
+                const { data: existing } = await this.http.get(mergeRequestUrl, { headers });
+                const userIds = await this.resolveGitLabUserIds(apiUrl, projectId, request.reviewers, token);
+                body.reviewer_ids = [
+                    ...new Set([
+                        ...(existing.reviewers || []).map((reviewer: any) => reviewer.id),
+                        ...request.reviewers.map(name => userIds.get(name)).filter(id => id !== undefined)
+                    ])
+                ];
+            }
+
+            const response = await this.http.put(mergeRequestUrl, body, { headers });
+
+            return {
+                id: response.data.id,
+                number: response.data.iid,
+                url: response.data.web_url
+            };
+        } catch (error: any) {
+            if (error.response?.status === 401) {
+                throw new Error('GitLab authentication failed. Please check your token.');
+            }
+            throw new Error(`GitLab API error: ${error.response?.data?.message || error.message}`);
+        }
+    }
+
+    /**
+     * Resolves the numeric GitLab project id for a remote URL through the projects API
+     */
+    private async resolveGitLabProject(repositoryUrl: string, token: string): Promise<{ apiUrl: string; projectId: number }> {
+        const { apiUrl, projectPath } = this.parseGitLabUrl(repositoryUrl);
+        const cacheKey = `${apiUrl}/${projectPath}`;
+
+        const cachedId = this.gitLabProjectIds.get(cacheKey);
+        if (cachedId !== undefined) {
+            return { apiUrl, projectId: cachedId };
+        }
+
+        try {
+            const response = await this.http.get(
+                `${apiUrl}/projects/${encodeURIComponent(projectPath)}`,
+                { headers: { 'Authorization': `Bearer ${token}` } }
+            );
+
+            this.gitLabProjectIds.set(cacheKey, response.data.id);
+            return { apiUrl, projectId: response.data.id };
+        } catch (error: any) {
+            if (error.response?.status === 404) {
+                throw new Error(`GitLab project "${projectPath}" not found on ${apiUrl}. Check the remote URL and token scopes.`);
+            }
+            throw error;
+        }
+    }
+
+    private async resolveGitLabUserIds(
+        apiUrl: string,
+        projectId: number,
+        usernames: string[],
+        token: string
+    ): Promise<Map<string, number>> {
+        const userIds = new Map<string, number>();
+        const members = await this.getGitLabMembers(apiUrl, projectId, token);
+        members.forEach(member => userIds.set(member.username, member.id));
+
+        // Users outside the project membership can still be looked up directly
+        for (const username of usernames.filter(name => !userIds.has(name))) {
+            const response = await this.http.get(
+                `${apiUrl}/users`,
+                {
+                    headers: { 'Authorization': `Bearer ${token}` },
+                    params: { username }
+                }
+            );
+            if (response.data.length > 0) {
+                userIds.set(username, response.data[0].id);
+            }
+        }
+
+        return userIds;
     }
 
-    private detectPlatform(repositoryUrl: string): 'github' | 'azure-devops' | 'gitlab' | 'unknown' {
-        if (repositoryUrl.includes('github.com')) {
-            return 'github';
-        } else if (repositoryUrl.includes('dev.azure.com') || repositoryUrl.includes('visualstudio.com')) {
-            return 'azure-devops';
-        } else if (repositoryUrl.includes('gitlab.com') || repositoryUrl.includes('gitlab')) {
-            return 'gitlab';
-        }
-        return 'unknown';
+    private async getGitLabMembers(apiUrl: string, projectId: number, token: string): Promise<Array<{ id: number; username: string }>> {
+        const response = await this.http.get(
+            `${apiUrl}/projects/${projectId}/members/all`,
+            {
+                headers: { 'Authorization': `Bearer ${token}` },
+                params: { per_page: 100 }
+            }
+        );
+
+        return response.data.map((member: any) => ({ id: member.id, username: member.username }));
     }
 
-    private async createGitHubPR(request: PRRequest): Promise<string> {
+    /**
+     * Creates a pull request on Bitbucket Cloud (bitbucket.org) or Bitbucket Data Center
+     */
+    private async createBitbucketPR(request: PRRequest): Promise<PRResponse> {
         try {
-            const token = await this.getGitHubToken();
-            if (!token) {
-                throw new Error('GitHub token not found. Please authenticate with GitHub.');
+            const authorization = await this.getBitbucketAuthorization();
+            if (!authorization) {
+                throw new Error('Bitbucket credentials not found. Please provide an access token or app password.');
             }
 
-            const { owner, repo } = this.parseGitHubUrl(request.repositoryUrl);
-            
-            const response = await axios.post(
-                `https://api.github.com/repos/${owner}/${repo}/pulls`,
+            const repository = this.parseBitbucketUrl(request.repositoryUrl);
+            const fork = request.sourceRepositoryUrl ? this.parseBitbucketUrl(request.sourceRepositoryUrl) : null;
+
+            let reviewerIds: string[] = [];
+            if (request.reviewers && request.reviewers.length > 0) {
+                const users = await this.getBitbucketUsers(repository, authorization);
+                reviewerIds = users
+                    .filter(user => request.reviewers!.includes(user.name))
+                    .map(user => user.id);
+            }
+
+            if (repository.cloud) {
+                const response = await this.http.post(
+                    `${repository.apiUrl}/repositories/${repository.owner}/${repository.repo}/pullrequests`,
+                    {
+                        title: request.title,
+                        description: request.description,
+                        source: {
+                            branch: { name: request.sourceBranch },
+                            ...(fork ? { repository: { full_name: `${fork.owner}/${fork.repo}` } } : {})
+                        },
+                        destination: { branch: { name: request.targetBranch } },
+                        reviewers: reviewerIds.map(id => ({ account_id: id })),
+                        close_source_branch: request.deleteSourceBranch || false,
+                        draft: request.isDraft || false
+                    },
+                    { headers: { 'Authorization': authorization, 'Content-Type': 'application/json' } }
+                );
+
+                return {
+                    id: response.data.id,
+                    number: response.data.id,
+                    url: response.data.links.html.href
+                };
+            }
+
+            // Data Center has no close-source-branch flag on creation; the branch is cleaned up on merge
+            const response = await this.http.post(
+                `${repository.apiUrl}/projects/${repository.owner}/repos/${repository.repo}/pull-requests`,
                 {
                     title: request.title,
-                    body: request.description,
-                    head: request.sourceBranch,
-                    base: request.targetBranch
+                    description: request.description,
+                    fromRef: {
+                        id: `refs/heads/${request.sourceBranch}`,
+                        ...(fork ? { repository: { slug: fork.repo, project: { key: fork.owner } } } : {})
+                    },
+                    toRef: { id: `refs/heads/${request.targetBranch}` },
+                    reviewers: reviewerIds.map(name => ({ user: { name } })),
+                    draft: request.isDraft || false
                 },
+                { headers: { 'Authorization': authorization, 'Content-Type': 'application/json' } }
+            );
+
+            return {
+                id: response.data.id,
+                number: response.data.id,
+                url: response.data.links.self[0].href
+            };
+        } catch (error: any) {
+            if (error.response?.status === 401) {
+                throw new Error('Bitbucket authentication failed. Please check your credentials.');
+            } else if (error.response?.status === 409) {
+                throw new Error('A pull request already exists for this branch.');
+            }
+            const apiMessage = error.response?.data?.error?.message || error.response?.data?.errors?.[0]?.message;
+            throw new Error(`Bitbucket API error: ${apiMessage || error.message}`);
+        }
+    }
+
+    private async findBitbucketPR(
+        repositoryUrl: string,
+        sourceBranch: string,
+        targetBranch: string,
+        sourceRepositoryUrl?: string
+    ): Promise<ExistingPR | null> {
+        const authorization = await this.getBitbucketAuthorization();
+        if (!authorization) {
+            return null;
+        }
+
+        const repository = this.parseBitbucketUrl(repositoryUrl);
+        const source = sourceRepositoryUrl ? this.parseBitbucketUrl(sourceRepositoryUrl) : repository;
+        if (repository.cloud) {
+            const response = await this.http.get(
+                `${repository.apiUrl}/repositories/${repository.owner}/${repository.repo}/pullrequests`,
                 {
-                    headers: {
-                        'Authorization': `token ${token}`,
-                        'Accept': 'application/vnd.github.v3+json',
-                        'Content-Type': 'application/json'
+                    headers: { 'Authorization': authorization },
+                    params: {
+                        q: `state="OPEN" AND source.branch.name="${sourceBranch}" AND destination.branch.name="${targetBranch}"` +
+                            ` AND source.repository.full_name="${source.owner}/${source.repo}"`
                     }
                 }
             );
 
-            return response.data.html_url;
+            const pullRequest = response.data.values[0];
+            return pullRequest ? {
+                id: pullRequest.id,
+                number: pullRequest.id,
+                url: pullRequest.links.html.href,
+                title: pullRequest.title,
+                description: pullRequest.description || '',
+                isDraft: pullRequest.draft || false
+            } : null;
+        }
+
+        // Outgoing pull requests of the repository the branch lives in, which is the fork for cross-repository ones
+        const response = await this.http.get(
+            `${source.apiUrl}/projects/${source.owner}/repos/${source.repo}/pull-requests`,
+            {
+                headers: { 'Authorization': authorization },
+                params: { state: 'OPEN', direction: 'OUTGOING', at: `refs/heads/${sourceBranch}`, limit: 100 }
+            }
+        );
+
+        const pullRequest = response.data.values.find((pr: any) =>
+            pr.toRef.id === `refs/heads/${targetBranch}` &&
+            pr.toRef.repository?.slug?.toLowerCase() === repository.repo.toLowerCase() &&
+            pr.toRef.repository?.project?.key?.toLowerCase() === repository.owner.toLowerCase()
+        );
+        return pullRequest ? {
+            id: pullRequest.id,
+            number: pullRequest.id,
+            url: pullRequest.links.self[0].href,
+            title: pullRequest.title,
+            description: pullRequest.description || '',
+            isDraft: pullRequest.draft || false
+        } : null;
+    }
+
+    private async updateBitbucketPR(request: PRUpdateRequest): Promise<PRResponse> {
+        try {
+            const authorization = await this.getBitbucketAuthorization();
+            if (!authorization) {
+                throw new Error('Bitbucket credentials not found. Please provide an access token or app password.');
+            }
+
+            const repository = this.parseBitbucketUrl(request.repositoryUrl);
+            const headers = { 'Authorization': authorization, 'Content-Type': 'application/json' };
+
+            let reviewerIds: string[] = [];
+            if (request.reviewers && request.reviewers.length > 0) {
+                const users = await this.getBitbucketUsers(repository, authorization);
+                reviewerIds = users
+                    .filter(user => request.reviewers!.includes(user.name))
+                    .map(user => user.id);
+            }
+
+            // Both APIs replace the reviewer list on update, so the existing reviewers are sent along
+            if (repository.cloud) {
+                const pullRequestUrl = `${repository.apiUrl}/repositories/${repository.owner}/${repository.repo}/pullrequests/${request.number}`;
+                const { data: existing } = await this.http.get(pullRequestUrl, { headers });
+                const accountIds = new Set([
+                    ...existing.reviewers.map((reviewer: any) => reviewer.account_id),
+                    ...reviewerIds
+                ]);
+
+                const body: { [key: string]: any } = {
+                    title: request.title,
+                    description: request.description,
+                    reviewers: Array.from(accountIds).map(id => ({ account_id: id }))
+                };
+                if (request.publish) {
+                    body.draft = false;
+                }
+
+                const response = await this.http.put(pullRequestUrl, body, { headers });
+                return {
+                    id: response.data.id,
+                    number: response.data.id,
+                    url: response.data.links.html.href
+                };
+            }
+
+            // Data Center rejects updates that do not carry the current version
+            const pullRequestUrl = `${repository.apiUrl}/projects/${repository.owner}/repos/${repository.repo}/pull-requests/${request.number}`;
+            const { data: existing } = await this.http.get(pullRequestUrl, { headers });
+            const names = new Set([
+                ...existing.reviewers.map((reviewer: any) => reviewer.user.name),
+                ...reviewerIds
+            ]);
+
+            const body: { [key: string]: any } = {
+                version: existing.version,
+                title: request.title,
+                description: request.description,
+                reviewers: Array.from(names).map(name => ({ user: { name } }))
+            };
+            if (request.publish) {
+                body.draft = false;
+            }
+
+            const response = await this.http.put(pullRequestUrl, body, { headers });
+            return {
+                id: response.data.id,
+                number: response.data.id,
+                url: response.data.links.self[0].href
+            };
         } catch (error: any) {
             if (error.response?.status === 401) {
-                throw new Error('GitHub authentication failed. Please check your token.');
-            } else if (error.response?.status === 422) {
-                throw new Error('Pull request could not be created. Check if it already exists or if the branches are valid.');
+                throw new Error('Bitbucket authentication failed. Please check your credentials.');
+            } else if (error.response?.status === 409) {
+                throw new Error('The pull request was modified by someone else. Please try again.');
             }
-            throw new Error(`GitHub API error: ${error.message}`);
+            const apiMessage = error.response?.data?.error?.message || error.response?.data?.errors?.[0]?.message;
+            throw new Error(`Bitbucket API error: ${apiMessage || error.message}`);
+        }
+    }
+
+    /**
+     * Lists users that can review pull requests in the repository, keyed by the id the API expects
+     */
+    private async getBitbucketUsers(
+        repository: { cloud: boolean; apiUrl: string; owner: string; repo: string },
+        authorization: string
+    ): Promise<Array<{ id: string; name: string }>> {
+        if (repository.cloud) {
+            const response = await this.http.get(
+                `${repository.apiUrl}/workspaces/${repository.owner}/members`,
+                {
+                    headers: { 'Authorization': authorization },
+                    params: { pagelen: 100 }
+                }
+            );
+            return response.data.values.map((member: any) => ({
+                id: member.user.account_id,
+                name: member.user.nickname || member.user.display_name
+            }));
         }
+
+        const response = await this.http.get(
+            `${repository.apiUrl}/users`,
+            {
+                headers: { 'Authorization': authorization },
+                params: {
+                    'permission.1': 'REPO_READ',
+                    'permission.1.projectKey': repository.owner,
+                    'permission.1.repositorySlug': repository.repo,
+                    limit: 100
+                }
+            }
+        );
+        return response.data.values.map((user: any) => ({ id: user.name, name: user.name }));
     }
 
-    private async createAzureDevOpsPR(request: PRRequest): Promise<string> {
+    /**
+     * Creates a pull request through the Gitea-compatible API used by Gitea and Forgejo
+     */
+    private async createGiteaPR(request: PRRequest): Promise<PRResponse> {
         try {
-            const token = await this.getAzureDevOpsToken();
+            const token = await this.getGiteaToken();
             if (!token) {
-                throw new Error('Azure DevOps token not found. Please authenticate with Azure DevOps.');
+                throw new Error('Gitea token not found. Please provide a Gitea or Forgejo access token.');
             }
 
-            const { organization, project, repo } = this.parseAzureDevOpsUrl(request.repositoryUrl);
-            
-            const response = await axios.post(
-                `https://dev.azure.com/${organization}/${project}/_apis/git/repositories/${repo}/pullrequests?api-version=7.0`,
-                {
-                    sourceRefName: `refs/heads/${request.sourceBranch}`,
-                    targetRefName: `refs/heads/${request.targetBranch}`,
-                    title: request.title,
-                    description: request.description
-                },
-                {
-                    headers: {
-                        'Authorization': `Basic ${Buffer.from(`:${token}`).toString('base64')}`,
-                        'Content-Type': 'application/json'
-                    }
-                }
+            const { apiUrl, owner, repo } = this.parseGiteaUrl(request.repositoryUrl);
+
+            // Gitea treats "WIP:" prefixed titles as work in progress
+            const title = request.isDraft && !/^(wip:|\[wip\])/i.test(request.title)
+                ? `WIP: ${request.title}`
+                : request.title;
+
+            const body: { [key: string]: any } = {
+                title,
+                body: request.description,
+                head: request.sourceRepositoryUrl
+                    ? `${this.parseGiteaUrl(request.sourceRepositoryUrl).owner}:${request.sourceBranch}`
+                    : request.sourceBranch,
+                base: request.targetBranch
+            };
+
+            if (request.assignees && request.assignees.length > 0) {
+                body.assignees = request.assignees;
+            }
+
+            // Labels are referenced by id
+            if (request.labels && request.labels.length > 0) {
+                const labels = await this.getGiteaLabels(request.repositoryUrl, token);
+                body.labels = labels
+                    .filter(label => request.labels!.includes(label.name))
+                    .map(label => label.id);
+            }
+
+            if (request.milestone !== undefined) {
+                body.milestone = request.milestone;
+            }
+
+            const response = await this.http.post(
+                `${apiUrl}/repos/${owner}/${repo}/pulls`,
+                body,
+                { headers: { 'Authorization': `token ${token}`, 'Content-Type': 'application/json' } }
             );
 
-            const prId = response.data.pullRequestId;
-            return `https://dev.azure.com/${organization}/${project}/_git/${repo}/pullrequest/${prId}`;
+            const pullRequest: PRResponse = {
+                id: response.data.id,
+                number: response.data.number,
+                url: response.data.html_url
+            };
+
+            if (request.reviewers && request.reviewers.length > 0) {
+                try {
+                    await this.http.post(
+                        `${apiUrl}/repos/${owner}/${repo}/pulls/${pullRequest.number}/requested_reviewers`,
+                        { reviewers: request.reviewers },
+                        { headers: { 'Authorization': `token ${token}`, 'Content-Type': 'application/json' } }
+                    );
+                } catch (error: any) {
+                    vscode.window.showWarningMessage(`Pull request #${pullRequest.number} was created, but reviewers could not be requested: ${error.message}`);
+                }
+            }
+
+            return pullRequest;
         } catch (error: any) {
             if (error.response?.status === 401) {
-                throw new Error('Azure DevOps authentication failed. Please check your token.');
+                throw new Error('Gitea authentication failed. Please check your token.');
+            } else if (error.response?.status === 409) {
+                throw new Error('A pull request already exists for this branch.');
             }
-            throw new Error(`Azure DevOps API error: ${error.message}`);
+            throw new Error(`Gitea API error: ${error.response?.data?.message || error.message}`);
+        }
+    }
+
+    private async findGiteaPR(
+        repositoryUrl: string,
+        sourceBranch: string,
+        targetBranch: string,
+        sourceRepositoryUrl?: string
+    ): Promise<ExistingPR | null> {
+        const token = await this.getGiteaToken();
+        if (!token) {
+            return null;
         }
+
+        const { apiUrl, owner, repo } = this.parseGiteaUrl(repositoryUrl);
+        const source = sourceRepositoryUrl ? this.parseGiteaUrl(sourceRepositoryUrl) : { owner, repo };
+        const sourceFullName = `${source.owner}/${source.repo}`.toLowerCase();
+        const pullRequests = await this.getGiteaPages(`${apiUrl}/repos/${owner}/${repo}/pulls`, token, { state: 'open' });
+
+        const pullRequest = pullRequests.find((pr: any) =>
+            pr.head.ref === sourceBranch &&
+            pr.base.ref === targetBranch &&
+            pr.head.repo?.full_name?.toLowerCase() === sourceFullName
+        );
+        return pullRequest ? {
+            id: pullRequest.id,
+            number: pullRequest.number,
+            url: pullRequest.html_url,
+            title: pullRequest.title.replace(/^(wip:|\[wip\])\s*/i, ''),
+            description: pullRequest.body || '',
+            isDraft: /^(wip:|\[wip\])/i.test(pullRequest.title)
+        } : null;
     }
 
-    private async createGitLabPR(request: PRRequest): Promise<string> {
+    private async updateGiteaPR(request: PRUpdateRequest): Promise<PRResponse> {
         try {
-            const token = await this.getGitLabToken();
+            const token = await this.getGiteaToken();
             if (!token) {
-                throw new Error('GitLab token not found. Please authenticate with GitLab.');
+                throw new Error('Gitea token not found. Please provide a Gitea or Forgejo access token.');
             }
 
-            const { projectId, baseUrl } = this.parseGitLabUrl(request.repositoryUrl);
-            
-            const response = await axios.post(
-                `${baseUrl}/api/v4/projects/${projectId}/merge_requests`,
+            const { apiUrl, owner, repo } = this.parseGiteaUrl(request.repositoryUrl);
+            const headers = { 'Authorization': `token ${token}`, 'Content-Type': 'application/json' };
+
+            const response = await this.http.patch(
+                `${apiUrl}/repos/${owner}/${repo}/pulls/${request.number}`,
                 {
-                    source_branch: request.sourceBranch,
-                    target_branch: request.targetBranch,
-                    title: request.title,
-                    description: request.description
+                    title: request.isDraft && !request.publish ? `WIP: ${request.title}` : request.title,
+                    body: request.description
                 },
-                {
-                    headers: {
-                        'Authorization': `Bearer ${token}`,
-                        'Content-Type': 'application/json'
-                    }
-                }
+                { headers }
             );
 
-            return response.data.web_url;
+            if (request.reviewers && request.reviewers.length > 0) {
+                await this.http.post(
+                    `${apiUrl}/repos/${owner}/${repo}/pulls/${request.number}/requested_reviewers`,
+                    { reviewers: request.reviewers },
+                    { headers }
+                );
+            }
+
+            return {
+                id: response.data.id,
+                number: response.data.number,
+                url: response.data.html_url
+            };
         } catch (error: any) {
             if (error.response?.status === 401) {
-                throw new Error('GitLab authentication failed. Please check your token.');
+                throw new Error('Gitea authentication failed. Please check your token.');
+            }
+            throw new Error(`Gitea API error: ${error.response?.data?.message || error.message}`);
+        }
+    }
+
+    private async getGiteaLabels(repositoryUrl: string, token: string): Promise<Array<{ id: number; name: string }>> {
+        const { apiUrl, owner, repo } = this.parseGiteaUrl(repositoryUrl);
+        const labels = await this.getGiteaPages(`${apiUrl}/repos/${owner}/${repo}/labels`, token);
+
+        return labels.map((label: any) => ({ id: label.id, name: label.name }));
+    }
+
+    /**
+     * Fetches every page of a Gitea list endpoint. Instances cap the page size (50 by default), so this follows
+     * the Link header, or asks for the next page until one comes back empty when there is no Link header.
+     */
+    private async getGiteaPages(url: string, token: string, params: { [key: string]: string } = {}): Promise<any[]> {
+        const items: any[] = [];
+        for (let page = 1; ; page++) {
+            const response = await this.http.get(url, {
+                headers: { 'Authorization': `token ${token}` },
+                params: { ...params, limit: 50, page }
+            });
+            const data: any[] = Array.isArray(response.data) ? response.data : [];
+            items.push(...data);
+
+            const link: string | undefined = response.headers?.link;
+            if (data.length === 0 || (link !== undefined && !/rel="next"/.test(link))) {
+                return items;
             }
-            throw new Error(`GitLab API error: ${error.message}`);
         }
     }
 
+    private getGitHubHeaders(token: string): { [key: string]: string } {
+        return {
+            'Authorization': `token ${token}`,
+            'Accept': 'application/vnd.github.v3+json',
+            'Content-Type': 'application/json'
+        };
+    }
+
     private async getGitHubToken(): Promise<string | null> {
         try {
             // First try to get token from GitHub authentication provider
@@ -167,30 +1594,46 @@ export class PRService {
             return envToken;
         }
 
-        // Ask user for token
+        // Ask user for token once per session
+        const cachedToken = this.tokens.get('github');
+        if (cachedToken) {
+            return cachedToken;
+        }
+
         const token = await vscode.window.showInputBox({
             prompt: 'Enter your GitHub Personal Access Token',
             password: true,
             placeHolder: 'ghp_...'
         });
 
+        if (token) {
+            this.tokens.set('github', token);
+        }
         return token || null;
     }
 
     private async getAzureDevOpsToken(): Promise<string | null> {
-        // Try environment variable first
-        const envToken = process.env.AZURE_DEVOPS_TOKEN;
+        // Try environment variables first (AZURE_DEVOPS_EXT_PAT is shared with the Azure CLI)
+        const envToken = process.env.AZURE_DEVOPS_TOKEN || process.env.AZURE_DEVOPS_EXT_PAT;
         if (envToken) {
             return envToken;
         }
 
-        // Ask user for token
+        // Ask user for token once per session
+        const cachedToken = this.tokens.get('azure-devops');
+        if (cachedToken) {
+            return cachedToken;
+        }
+
         const token = await vscode.window.showInputBox({
             prompt: 'Enter your Azure DevOps Personal Access Token',
             password: true,
             placeHolder: 'Personal Access Token'
         });
 
+        if (token) {
+            this.tokens.set('azure-devops', token);
+        }
         return token || null;
     }
 
@@ -201,75 +1644,214 @@ export class PRService {
             return envToken;
         }
 
-        // Ask user for token
+        // Ask user for token once per session
+        const cachedToken = this.tokens.get('gitlab');
+        if (cachedToken) {
+            return cachedToken;
+        }
+
         const token = await vscode.window.showInputBox({
             prompt: 'Enter your GitLab Personal Access Token',
             password: true,
             placeHolder: 'glpat-...'
         });
 
+        if (token) {
+            this.tokens.set('gitlab', token);
+        }
         return token || null;
     }
 
-    private parseGitHubUrl(url: string): { owner: string; repo: string } {
-        // Handle both HTTPS and SSH URLs
-        let cleanUrl = url.replace(/\.git$/, '');
-        
-        if (cleanUrl.includes('git@github.com:')) {
-            // SSH format: git@github.com:owner/repo
-            const match = cleanUrl.match(/git@github\.com:([^/]+)\/(.+)/);
-            if (match) {
-                return { owner: match[1], repo: match[2] };
-            }
-        } else {
-            // HTTPS format: https://github.com/owner/repo
-            const match = cleanUrl.match(/github\.com\/([^/]+)\/(.+)/);
-            if (match) {
-                return { owner: match[1], repo: match[2] };
-            }
+    /**
+     * Bitbucket accepts access tokens (Bearer) or "username:app-password" pairs (Basic)
+     */
+    toBitbucketAuthorization(credential: string): string {
+        return credential.includes(':')
+            ? `Basic ${Buffer.from(credential).toString('base64')}`
+            : `Bearer ${credential}`;
+    }
+
+    private async getBitbucketAuthorization(): Promise<string | null> {
+        // Try environment variables first
+        if (process.env.BITBUCKET_TOKEN) {
+            return this.toBitbucketAuthorization(process.env.BITBUCKET_TOKEN);
+        }
+        if (process.env.BITBUCKET_USERNAME && process.env.BITBUCKET_APP_PASSWORD) {
+            return this.toBitbucketAuthorization(`${process.env.BITBUCKET_USERNAME}:${process.env.BITBUCKET_APP_PASSWORD}`);
+        }
+
+        // Ask user for credentials once per session
+        const cachedCredential = this.tokens.get('bitbucket');
+        if (cachedCredential) {
+            return this.toBitbucketAuthorization(cachedCredential);
+        }
+
+        const credential = await vscode.window.showInputBox({
+            prompt: 'Enter your Bitbucket access token, or username:app-password for Bitbucket Cloud',
+            password: true,
+            placeHolder: 'Access token or username:app-password'
+        });
+
+        if (credential) {
+            this.tokens.set('bitbucket', credential);
+        }
+        return credential ? this.toBitbucketAuthorization(credential) : null;
+    }
+
+    private async getGiteaToken(): Promise<string | null> {
+        // Try environment variable first
+        const envToken = process.env.GITEA_TOKEN;
+        if (envToken) {
+            return envToken;
+        }
+
+        // Ask user for token once per session
+        const cachedToken = this.tokens.get('gitea');
+        if (cachedToken) {
+            return cachedToken;
+        }
+
+        const token = await vscode.window.showInputBox({
+            prompt: 'Enter your Gitea/Forgejo access token',
+            password: true,
+            placeHolder: 'Access token'
+        });
+
+        if (token) {
+            this.tokens.set('gitea', token);
+        }
+        return token || null;
+    }
+
+    private parseGitHubUrl(url: string): { apiUrl: string; owner: string; repo: string } {
+        // Handle both HTTPS and SSH URLs, on github.com or GitHub Enterprise Server
+        const cleanUrl = url.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+        const host = this.hostService.getRemoteHost(cleanUrl);
+        const defaultApiUrl = host === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`;
+
+        // Owner and repository are always the last two path segments
+        const match = cleanUrl.match(/[/:]([^/:]+)\/([^/:]+)$/);
+        if (host && match) {
+            return {
+                apiUrl: this.hostService.getApiUrl(cleanUrl, defaultApiUrl),
+                owner: match[1],
+                repo: match[2]
+            };
         }
         
         throw new Error('Invalid GitHub URL format');
     }
 
-    private parseAzureDevOpsUrl(url: string): { organization: string; project: string; repo: string } {
-        // Azure DevOps URL format: https://dev.azure.com/organization/project/_git/repo
-        const match = url.match(/dev\.azure\.com\/([^/]+)\/([^/]+)\/_git\/(.+)/);
+    private parseAzureDevOpsUrl(url: string): { organizationUrl: string; project: string; repo: string } {
+        const cleanUrl = url.trim().replace(/\.git$/, '');
+
+        // SSH format: git@ssh.dev.azure.com:v3/organization/project/repo
+        const sshMatch = cleanUrl.match(/ssh\.dev\.azure\.com:v3\/([^/]+)\/([^/]+)\/([^/]+)$/);
+        if (sshMatch) {
+            return {
+                organizationUrl: `https://dev.azure.com/${sshMatch[1]}`,
+                project: sshMatch[2],
+                repo: sshMatch[3]
+            };
+        }
+
+        // HTTPS format: https://dev.azure.com/organization/project/_git/repo, or
+        // https://server/tfs/Collection/project/_git/repo for Azure DevOps Server
+        const match = cleanUrl.match(/^(https?|ssh):\/\/(?:[^@/]+@)?([^/]+)((?:\/[^/]+)*?)\/([^/]+)\/_git\/([^/]+)$/);
         if (match) {
+            // A mapped host's API URL is the collection URL itself; otherwise the collection is in the remote's path
+            const serverUrl = match[1] === 'ssh' ? `https://${match[2].replace(/:\d+$/, '')}` : `${match[1]}://${match[2]}`;
             return {
-                organization: match[1],
-                project: match[2],
-                repo: match[3].replace(/\.git$/, '')
+                organizationUrl: this.hostService.getApiUrl(cleanUrl, serverUrl + match[3]),
+                project: match[4],
+                repo: match[5]
             };
         }
         
         throw new Error('Invalid Azure DevOps URL format');
     }
 
-    private parseGitLabUrl(url: string): { projectId: string; baseUrl: string } {
-        // For simplicity, we'll extract the project path and use it as ID
-        // In a real implementation, you'd need to resolve the project ID via API
-        let baseUrl = 'https://gitlab.com';
-        let projectPath = '';
-        
-        if (url.includes('gitlab.com')) {
-            const match = url.match(/gitlab\.com\/(.+)\.git/);
-            if (match) {
-                projectPath = match[1];
-            }
-        } else {
-            // Self-hosted GitLab
-            const match = url.match(/(https?:\/\/[^/]+)\/(.+)\.git/);
-            if (match) {
-                baseUrl = match[1];
-                projectPath = match[2];
-            }
+    /**
+     * Splits a GitLab remote into the API URL and the project path, which includes any subgroups
+     */
+    parseGitLabUrl(url: string): { apiUrl: string; projectPath: string } {
+        const cleanUrl = url.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+        const toApiUrl = (instanceUrl: string) => this.hostService.getApiUrl(cleanUrl, `${instanceUrl}/api/v4`);
+
+        // HTTPS format: https://gitlab.example.com/group/subgroup/project
+        const httpsMatch = cleanUrl.match(/^(https?):\/\/(?:[^@/]+@)?([^/]+)\/(.+)$/);
+        if (httpsMatch) {
+            return { apiUrl: toApiUrl(`${httpsMatch[1]}://${httpsMatch[2]}`), projectPath: httpsMatch[3] };
         }
-        
-        // URL encode the project path to use as project ID
-        const projectId = encodeURIComponent(projectPath);
-        
-        return { projectId, baseUrl };
+
+        // SSH format: ssh://git@gitlab.example.com:2222/group/project
+        const sshUrlMatch = cleanUrl.match(/^ssh:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/);
+        if (sshUrlMatch) {
+            return { apiUrl: toApiUrl(`https://${sshUrlMatch[1]}`), projectPath: sshUrlMatch[2] };
+        }
+
+        // SCP-like format: git@gitlab.example.com:group/subgroup/project
+        const scpMatch = cleanUrl.match(/^(?:[^@/]+@)?([^/:]+):(.+)$/);
+        if (scpMatch) {
+            return { apiUrl: toApiUrl(`https://${scpMatch[1]}`), projectPath: scpMatch[2] };
+        }
+
+        throw new Error('Invalid GitLab URL format');
+    }
+
+    /**
+     * Splits a Bitbucket Cloud or Data Center remote into the API URL, the workspace or project key, and the repository
+     */
+    parseBitbucketUrl(url: string): { cloud: boolean; apiUrl: string; owner: string; repo: string } {
+        const cleanUrl = url.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+
+        // Bitbucket Cloud: https://user@bitbucket.org/workspace/repo or git@bitbucket.org:workspace/repo
+        const cloudMatch = cleanUrl.match(/bitbucket\.org[/:]([^/]+)\/([^/]+)$/);
+        if (cloudMatch) {
+            return { cloud: true, apiUrl: this.hostService.getApiUrl(cleanUrl, 'https://api.bitbucket.org/2.0'), owner: cloudMatch[1], repo: cloudMatch[2] };
+        }
+
+        // Data Center HTTPS: https://bitbucket.example.com[/context]/scm/PROJECT/repo
+        const httpsMatch = cleanUrl.match(/^(https?:\/\/)(?:[^@/]+@)?([^/]+(?:\/.*?)?)\/scm\/([^/]+)\/([^/]+)$/);
+        if (httpsMatch) {
+            return { cloud: false, apiUrl: this.hostService.getApiUrl(cleanUrl, `${httpsMatch[1]}${httpsMatch[2]}/rest/api/1.0`), owner: httpsMatch[3], repo: httpsMatch[4] };
+        }
+
+        // Data Center browser URL: https://bitbucket.example.com[/context]/projects/PROJECT/repos/repo[/browse]
+        const browseMatch = cleanUrl.match(/^(https?:\/\/)(?:[^@/]+@)?([^/]+(?:\/.*?)?)\/projects\/([^/]+)\/repos\/([^/]+)(?:\/.*)?$/);
+        if (browseMatch) {
+            return { cloud: false, apiUrl: this.hostService.getApiUrl(cleanUrl, `${browseMatch[1]}${browseMatch[2]}/rest/api/1.0`), owner: browseMatch[3], repo: browseMatch[4] };
+        }
+
+        // Data Center SSH: ssh://git@bitbucket.example.com:7999/project/repo
+        const sshMatch = cleanUrl.match(/^ssh:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/([^/]+)\/([^/]+)$/);
+        if (sshMatch) {
+            return { cloud: false, apiUrl: this.hostService.getApiUrl(cleanUrl, `https://${sshMatch[1]}/rest/api/1.0`), owner: sshMatch[2], repo: sshMatch[3] };
+        }
+
+        throw new Error('Invalid Bitbucket URL format');
+    }
+
+    /**
+     * Splits a Gitea or Forgejo remote into the API URL, the owner and the repository
+     */
+    parseGiteaUrl(url: string): { apiUrl: string; owner: string; repo: string } {
+        const cleanUrl = url.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+        const toApiUrl = (instanceUrl: string) => this.hostService.getApiUrl(cleanUrl, `${instanceUrl}/api/v1`);
+
+        // HTTPS format: https://git.example.com[/subpath]/owner/repo
+        const httpsMatch = cleanUrl.match(/^(https?:\/\/)(?:[^@/]+@)?(.+)\/([^/]+)\/([^/]+)$/);
+        if (httpsMatch) {
+            return { apiUrl: toApiUrl(`${httpsMatch[1]}${httpsMatch[2]}`), owner: httpsMatch[3], repo: httpsMatch[4] };
+        }
+
+        // SSH formats: ssh://git@git.example.com:2222/owner/repo or git@git.example.com:owner/repo
+        const sshMatch = cleanUrl.match(/^(?:ssh:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/]([^/]+)\/([^/]+)$/);
+        if (sshMatch) {
+            return { apiUrl: toApiUrl(`https://${sshMatch[1]}`), owner: sshMatch[2], repo: sshMatch[3] };
+        }
+
+        throw new Error('Invalid Gitea URL format');
     }
 
     async testConnection(platform: string, repositoryUrl: string): Promise<boolean> {
@@ -281,9 +1863,9 @@ export class PRService {
                         return false;
                     }
                     
-                    const { owner, repo } = this.parseGitHubUrl(repositoryUrl);
-                    const response = await axios.get(
-                        `https://api.github.com/repos/${owner}/${repo}`,
+                    const { apiUrl, owner, repo } = this.parseGitHubUrl(repositoryUrl);
+                    const response = await this.http.get(
+                        `${apiUrl}/repos/${owner}/${repo}`,
                         {
                             headers: {
                                 'Authorization': `token ${githubToken}`,
@@ -293,13 +1875,66 @@ export class PRService {
                     );
                     return response.status === 200;
                     
-                case 'azure-devops':
-                    // Azure DevOps connection test
-                    return true; // Simplified for now
-                    
-                case 'gitlab':
-                    // GitLab connection test
-                    return true; // Simplified for now
+                case 'azure-devops': {
+                    const azureToken = await this.getAzureDevOpsToken();
+                    if (!azureToken) {
+                        return false;
+                    }
+
+                    const azure = this.parseAzureDevOpsUrl(repositoryUrl);
+                    const azureResponse = await this.http.get(
+                        `${azure.organizationUrl}/${azure.project}/_apis/git/repositories/${azure.repo}?api-version=7.0`,
+                        { headers: this.getAzureDevOpsHeaders(azureToken), maxRedirects: 0 }
+                    );
+                    // Invalid tokens get a 203 sign-in page instead of a 401
+                    return azureResponse.status === 200;
+                }
+
+                case 'gitlab': {
+                    const gitlabToken = await this.getGitLabToken();
+                    if (!gitlabToken) {
+                        return false;
+                    }
+
+                    // Validates the token and that it can read the project
+                    const { apiUrl } = await this.resolveGitLabProject(repositoryUrl, gitlabToken);
+                    const userResponse = await this.http.get(
+                        `${apiUrl}/user`,
+                        { headers: { 'Authorization': `Bearer ${gitlabToken}` } }
+                    );
+                    return userResponse.status === 200;
+                }
+
+                case 'bitbucket': {
+                    const authorization = await this.getBitbucketAuthorization();
+                    if (!authorization) {
+                        return false;
+                    }
+
+                    const repository = this.parseBitbucketUrl(repositoryUrl);
+                    const repositoryPath = repository.cloud
+                        ? `repositories/${repository.owner}/${repository.repo}`
+                        : `projects/${repository.owner}/repos/${repository.repo}`;
+                    const bitbucketResponse = await this.http.get(
+                        `${repository.apiUrl}/${repositoryPath}`,
+                        { headers: { 'Authorization': authorization } }
+                    );
+                    return bitbucketResponse.status === 200;
+                }
+
+                case 'gitea': {
+                    const giteaToken = await this.getGiteaToken();
+                    if (!giteaToken) {
+                        return false;
+                    }
+
+                    const gitea = this.parseGiteaUrl(repositoryUrl);
+                    const giteaResponse = await this.http.get(
+                        `${gitea.apiUrl}/repos/${gitea.owner}/${gitea.repo}`,
+                        { headers: { 'Authorization': `token ${giteaToken}` } }
+                    );
+                    return giteaResponse.status === 200;
+                }
                     
                 default:
                     return false;
@@ -309,4 +1944,82 @@ export class PRService {
             return false;
         }
     }
+
+    /**
+     * Send webhook notification when PR is created
+     */
+    private async sendPRWebhook(
+        event: WebhookEvent,
+        request: Pick<PRRequest, 'title' | 'description' | 'sourceBranch' | 'targetBranch' | 'repositoryUrl'>,
+        response: PRResponse,
+        workspaceFolder: string
+    ): Promise<void> {
+        try {
+            const author = await this.getGitUserName(workspaceFolder);
+            const workspaceName = workspaceFolder.split('/').pop() || 'Unknown';
+
+            const payload: WebhookPayload = {
+                event,
+                pullRequest: {
+                    id: response.number.toString(),
+                    title: request.title,
+                    description: request.description,
+                    url: response.url,
+                    author,
+                    sourceBranch: request.sourceBranch,
+                    targetBranch: request.targetBranch,
+                    repository: this.getRepositoryName(request.repositoryUrl),
+                    aiGenerated: request.description.includes('Generated by Smart PR Creator') ||
+                                request.description.includes('AI-generated'),
+                    filesChanged: await this.getChangedFilesCount(workspaceFolder, request.targetBranch),
+                    commits: await this.getCommitsCount(workspaceFolder, request.targetBranch)
+                },
+                timestamp: new Date().toISOString(),
+                metadata: {
+                    extensionVersion: vscode.extensions.getExtension('smart-pr-creator.smart-pr-creator')?.packageJSON?.version || '1.0.0',
+                    workspaceFolder: workspaceName,
+                    vsCodeVersion: vscode.version
+                }
+            };
+
+            await this.webhookService.sendWebhook(event, payload, vscode.Uri.file(workspaceFolder));
+        } catch (error) {
+            console.error('Failed to send webhook notification:', error);
+            // Don't throw - webhook failure shouldn't break PR creation or updates
+        }
+    }
+
+    private getRepositoryName(repositoryUrl: string): string {
+        return repositoryUrl
+            .replace(/\.git$/, '')
+            .replace(/^[a-z+]+:\/\/([^@/]+@)?[^/]+\//i, '')
+            .replace(/^[^@]+@[^:]+:/, '');
+    }
+
+    private async getGitUserName(workspaceFolder: string): Promise<string> {
+        try {
+            const { stdout } = await exec('git config user.name', { cwd: workspaceFolder });
+            return stdout.trim() || 'Unknown User';
+        } catch (error) {
+            return 'Unknown User';
+        }
+    }
+
+    private async getChangedFilesCount(workspaceFolder: string, targetBranch: string): Promise<number> {
+        try {
+            const { stdout } = await exec(`git diff --name-only origin/${targetBranch}...HEAD`, { cwd: workspaceFolder });
+            return stdout.trim().split('\n').filter(line => line.length > 0).length;
+        } catch (error) {
+            return 0;
+        }
+    }
+
+    private async getCommitsCount(workspaceFolder: string, targetBranch: string): Promise<number> {
+        try {
+            const { stdout } = await exec(`git rev-list --count HEAD ^origin/${targetBranch}`, { cwd: workspaceFolder });
+            return parseInt(stdout.trim()) || 1;
+        } catch (error) {
+            return 1;
+        }
+    }
 }
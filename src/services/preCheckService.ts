@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+
+/**
+ * A check run before the pull request is opened: a shell command or a VS Code task
+ */
+export interface PreCheck {
+    name: string;
+    // Run with the repository root as the working directory, e.g. "npm run lint"
+    command?: string;
+    // Task label, optionally with its source, e.g. "npm: check-types"
+    task?: string;
+}
+
+/**
+ * The "smartPrCreator.preChecks" setting
+ */
+export interface PreCheckSettings {
+    checks?: PreCheck[];
+    // Whether failing checks stop the pull request or only warn about it
+    onFailure?: 'block' | 'warn';
+    // Adds a "Checks Run Locally" section with the results to the description
+    addToDescription?: boolean;
+}
+
+export interface PreCheckResult {
+    name: string;
+    passed: boolean;
+    durationMs: number;
+    // Why the check failed, e.g. "exit code 1"
+    detail?: string;
+}
+
+type PreCheckOutput = Pick<vscode.OutputChannel, 'append' | 'appendLine' | 'show'>;
+
+const CHECKS_HEADING = '## Checks Run Locally';
+
+/**
+ * Runs the repository's pre-PR checks one after another, streaming their output to an output channel
+ */
+export class PreCheckService {
+    constructor(private readonly output: PreCheckOutput) {}
+
+    /**
+     * Runs every check, also after one fails, so all results can be reported at once
+     * @param onCheckStarted Called before each check, e.g. to report progress
+     */
+    async run(
+        checks: PreCheck[],
+        repositoryPath: string,
+        onCheckStarted?: (check: PreCheck, index: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<PreCheckResult[]> {
+        const results: PreCheckResult[] = [];
+        this.output.appendLine(`Running ${checks.length} pre-PR check(s) in ${repositoryPath}`);
+
+        for (const [index, check] of checks.entries()) {
+            if (token?.isCancellationRequested) {
+                results.push({ name: check.name, passed: false, durationMs: 0, detail: 'cancelled' });
+                continue;
+            }
+
+            onCheckStarted?.(check, index);
+            this.output.appendLine('');
+            this.output.appendLine(`▶ ${check.name}: ${check.command || `task "${check.task}"`}`);
+
+            const started = Date.now();
+            let detail: string | undefined;
+            try {
+                const exitCode = check.command
+                    ? await this.runCommand(check.command, repositoryPath, token)
+                    : check.task
+                        ? await this.runTask(check.task, repositoryPath)
+                        : undefined;
+                if (exitCode !== 0) {
+                    detail = exitCode === undefined ? 'no command or task configured' : `exit code ${exitCode}`;
+                }
+            } catch (error: any) {
+                detail = error.message;
+            }
+
+            const result = { name: check.name, passed: detail === undefined, durationMs: Date.now() - started, detail };
+            results.push(result);
+            this.output.appendLine(`${result.passed ? '✅' : '❌'} ${this.formatResult(result)}`);
+        }
+
+        const failed = results.filter(result => !result.passed).length;
+        this.output.appendLine('');
+        this.output.appendLine(failed > 0 ? `${failed} of ${results.length} check(s) failed` : `All ${results.length} check(s) passed`);
+        return results;
+    }
+
+    showOutput(): void {
+        this.output.show(true);
+    }
+
+    /**
+     * Adds a "Checks Run Locally" section listing the results, unless the description already has one
+     */
+    appendResults(description: string, results: PreCheckResult[]): string {
+        if (results.length === 0 || description.includes(CHECKS_HEADING)) {
+            return description;
+        }
+
+        const lines = results.map(result => `- ${result.passed ? '✅' : '❌'} ${this.formatResult(result)}`);
+        return `${description.trimEnd()}\n\n${CHECKS_HEADING}\n${lines.join('\n')}\n`;
+    }
+
+    private formatResult(result: PreCheckResult): string {
+        const duration = `${(result.durationMs / 1000).toFixed(1)}s`;
+        return `${result.name} ${result.passed ? 'passed' : `failed (${result.detail})`} in ${duration}`;
+    }
+
+    /**
+     * Runs a shell command and resolves with its exit code; cancelling kills it
+     */
+    private runCommand(command: string, repositoryPath: string, token?: vscode.CancellationToken): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const child = cp.spawn(command, { cwd: repositoryPath, shell: true });
+            const cancellation = token?.onCancellationRequested(() => child.kill());
+
+            child.stdout.on('data', data => this.output.append(data.toString()));
+            child.stderr.on('data', data => this.output.append(data.toString()));
+            child.on('error', error => {
+                cancellation?.dispose();
+                reject(error);
+            });
+            child.on('close', code => {
+                cancellation?.dispose();
+                if (token?.isCancellationRequested) {
+                    reject(new Error('cancelled'));
+                } else {
+                    resolve(code ?? 1);
+                }
+            });
+        });
+    }
+
+    /**
+     * Runs a VS Code task, preferring the one defined for the repository's folder, and resolves with its exit code.
+     * The task's output is shown in its own terminal.
+     */
+    private async runTask(label: string, repositoryPath: string): Promise<number> {
+        const matches = (await vscode.tasks.fetchTasks())
+            .filter(task => task.name === label || `${task.source}: ${task.name}` === label);
+        const task = matches.find(candidate =>
+            typeof candidate.scope === 'object' && candidate.scope.uri.fsPath === repositoryPath
+        ) || matches[0];
+        if (!task) {
+            throw new Error(`task "${label}" not found`);
+        }
+
+        this.output.appendLine(`Output is shown in the "${task.name}" terminal`);
+
+        // Listen before starting, so a task that ends immediately is not missed
+        return new Promise<number>((resolve, reject) => {
+            let execution: vscode.TaskExecution | undefined;
+            const ended: vscode.TaskProcessEndEvent[] = [];
+            const finish = (event: vscode.TaskProcessEndEvent) => {
+                listener.dispose();
+                resolve(event.exitCode ?? 1);
+            };
+            const listener = vscode.tasks.onDidEndTaskProcess(event => {
+                if (!execution) {
+                    ended.push(event);
+                } else if (event.execution === execution) {
+                    finish(event);
+                }
+            });
+
+            vscode.tasks.executeTask(task).then(started => {
+                execution = started;
+                const early = ended.find(event => event.execution === started);
+                if (early) {
+                    finish(early);
+                }
+            }, error => {
+                listener.dispose();
+                reject(error);
+            });
+        });
+    }
+}
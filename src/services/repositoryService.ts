@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+import { GitRemote } from './gitService';
+
+const exec = promisify(cp.exec);
+
+/**
+ * A git repository the extension operates on
+ */
+export interface ResolvedRepository {
+    rootPath: string;
+    rootUri: vscode.Uri;
+    name: string;
+}
+
+/**
+ * The remotes a pull request goes between in a fork setup, by remote name
+ */
+export interface ForkRemotes {
+    // Remote of the repository the pull request is opened against
+    base: string;
+    // Remote of the fork the branch is pushed to
+    head: string;
+}
+
+/**
+ * Decides which repository a command applies to in single-folder, multi-root and multi-repository workspaces
+ */
+export class RepositoryService {
+    /**
+     * @param state Where the chosen fork remotes are remembered, e.g. the workspace state
+     */
+    constructor(private readonly state?: vscode.Memento) {}
+
+    /**
+     * Resolves the repository for a command, in order of preference:
+     * the Source Control repository the command was invoked from, the repository of the active editor,
+     * the only repository in the workspace, or the one the user picks
+     */
+    async resolveRepository(scmContext?: any): Promise<ResolvedRepository | null> {
+        // Source Control menus pass the SourceControl (or a resource group) that was clicked
+        const scmRootUri: vscode.Uri | undefined = scmContext?.rootUri || scmContext?.sourceControl?.rootUri;
+        if (scmRootUri instanceof vscode.Uri) {
+            const repository = await this.getRepositoryForPath(scmRootUri.fsPath);
+            if (repository) {
+                return repository;
+            }
+        }
+
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        if (activeUri?.scheme === 'file') {
+            const repository = await this.getRepositoryForPath(path.dirname(activeUri.fsPath));
+            if (repository) {
+                return repository;
+            }
+        }
+
+        const repositories = await this.listRepositories();
+        if (repositories.length <= 1) {
+            return repositories[0] || null;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            repositories.map(repository => ({
+                label: repository.name,
+                description: repository.rootPath,
+                repository
+            })),
+            {
+                placeHolder: 'Select the repository to use',
+                title: 'Choose Repository'
+            }
+        );
+
+        return picked?.repository || null;
+    }
+
+    /**
+     * Lists the distinct git repositories that contain a workspace folder
+     */
+    async listRepositories(): Promise<ResolvedRepository[]> {
+        const repositories: ResolvedRepository[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const repository = await this.getRepositoryForPath(folder.uri.fsPath);
+            if (repository && !repositories.some(existing => existing.rootPath === repository.rootPath)) {
+                repositories.push(repository);
+            }
+        }
+
+        return repositories;
+    }
+
+    /**
+     * Finds the root of the git repository containing a path
+     */
+    async getRepositoryForPath(fsPath: string): Promise<ResolvedRepository | null> {
+        try {
+            const { stdout } = await exec('git rev-parse --show-toplevel', { cwd: fsPath });
+            const rootPath = path.normalize(stdout.trim());
+            if (!rootPath) {
+                return null;
+            }
+
+            return {
+                rootPath,
+                rootUri: vscode.Uri.file(rootPath),
+                name: path.basename(rootPath)
+            };
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Returns the remotes that belong to a fork setup: different repositories with the same name on one platform,
+     * e.g. "me/app" as origin and "team/app" as upstream. Several URLs of the same repository are not a fork.
+     */
+    findForkRemotes(remotes: GitRemote[]): GitRemote[] {
+        const repositories = remotes
+            .filter(remote => remote.platform !== 'unknown')
+            .map(remote => ({ remote, path: this.parseRepositoryPath(remote.url) }));
+
+        return repositories
+            .filter(({ remote, path: repositoryPath }) => repositoryPath && repositories.some(other =>
+                other.remote.platform === remote.platform &&
+                other.path?.name === repositoryPath.name &&
+                other.path.owner !== repositoryPath.owner
+            ))
+            .map(({ remote }) => remote);
+    }
+
+    /**
+     * Returns the fork remotes chosen before for the repository, if there are any
+     */
+    getForkRemotes(rootPath: string): ForkRemotes | undefined {
+        return this.state?.get<ForkRemotes>(`forkRemotes:${rootPath}`);
+    }
+
+    async rememberForkRemotes(rootPath: string, remotes: ForkRemotes): Promise<void> {
+        await this.state?.update(`forkRemotes:${rootPath}`, remotes);
+    }
+
+    /**
+     * Splits a remote URL into the owner path and the repository name, in lower case.
+     * Handles HTTPS and SSH URLs, Azure DevOps "_git" paths and Bitbucket Data Center "scm" paths.
+     */
+    private parseRepositoryPath(url: string): { owner: string; name: string } | undefined {
+        const match = url.match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?[^/:]+(?::\d+)?[:/](.+?)(?:\.git)?\/*$/i);
+        const segments = match?.[1]
+            .split('/')
+            .filter((segment, index) => segment && segment !== '_git' && !(index === 0 && (segment === 'scm' || segment === 'v3')));
+        if (!segments || segments.length < 2) {
+            return undefined;
+        }
+
+        return {
+            owner: segments.slice(0, -1).join('/').toLowerCase(),
+            name: segments[segments.length - 1].toLowerCase()
+        };
+    }
+}
@@ -0,0 +1,216 @@
+import * as cp from 'child_process';
+import { promisify } from 'util';
+
+const execFile = promisify(cp.execFile);
+
+/**
+ * Someone who wrote or recently changed the code a pull request touches
+ */
+export interface ReviewerCandidate {
+    name: string;
+    email: string;
+    // How the reviewer is named on the platform: a listed reviewer when one matches, otherwise the email
+    reviewer: string;
+    score: number;
+    // e.g. "wrote 62% of changed lines in src/services/aiService.ts"
+    reason: string;
+}
+
+export interface Contribution {
+    name: string;
+    email: string;
+    // Unix time in seconds
+    time: number;
+}
+
+/**
+ * Who wrote the lines a pull request changes in a file, and who committed to it
+ */
+export interface FileHistory {
+    file: string;
+    // One entry per changed line, attributed by git blame on the base
+    lines: Contribution[];
+    // Most recent commits to the file on the base
+    commits: Contribution[];
+}
+
+// Contributions lose half their weight every 180 days
+const HALF_LIFE_DAYS = 180;
+const BLAME_WEIGHT = 0.6;
+const LOG_WEIGHT = 0.4;
+const COMMITS_PER_FILE = 30;
+
+/**
+ * Ranks reviewers by who authored the changed lines (git blame) and who recently changed the files (git log)
+ */
+export class ReviewerRecommendationService {
+    /**
+     * Returns the top candidates for the files changed since baseRef, leaving out the current git user
+     * @param availableReviewers Reviewers listed by the platform, used to name candidates the way the platform does
+     */
+    async recommend(
+        repositoryPath: string,
+        baseRef: string,
+        files: string[],
+        availableReviewers: string[] = [],
+        limit: number = 5
+    ): Promise<ReviewerCandidate[]> {
+        const histories: FileHistory[] = [];
+        for (const file of files) {
+            try {
+                histories.push({
+                    file,
+                    lines: await this.blameChangedLines(repositoryPath, baseRef, file),
+                    commits: await this.getFileCommits(repositoryPath, baseRef, file)
+                });
+            } catch (error) {
+                // New files have no history on the base
+            }
+        }
+
+        const author = await this.getGitConfig(repositoryPath, 'user.email');
+        return this.rank(histories, [author], Date.now() / 1000)
+            .slice(0, limit)
+            .map(candidate => ({ ...candidate, reviewer: this.toReviewer(candidate, availableReviewers) }));
+    }
+
+    /**
+     * Scores each contributor by their recency-weighted share of the changed lines and of the commits to each file
+     * @param excludedEmails Emails of the pull request author, who cannot review it
+     * @param now Unix time in seconds that recency is measured from
+     */
+    rank(histories: FileHistory[], excludedEmails: string[], now: number): ReviewerCandidate[] {
+        const excluded = excludedEmails.filter(email => email).map(email => email.toLowerCase());
+        const candidates = new Map<string, ReviewerCandidate & { reasonScore: number }>();
+
+        const add = (contribution: Contribution, score: number, reasonScore: number, reason: string) => {
+            const key = contribution.email.toLowerCase();
+            if (excluded.includes(key)) {
+                return;
+            }
+
+            const candidate = candidates.get(key) || {
+                name: contribution.name,
+                email: contribution.email,
+                reviewer: contribution.email,
+                score: 0,
+                reason,
+                reasonScore
+            };
+            candidate.score += score;
+            if (reasonScore > candidate.reasonScore) {
+                candidate.reason = reason;
+                candidate.reasonScore = reasonScore;
+            }
+            candidates.set(key, candidate);
+        };
+
+        for (const history of histories) {
+            for (const [contributor, lines] of this.groupByEmail(history.lines)) {
+                const weight = lines.reduce((total, line) => total + this.getRecencyWeight(line.time, now), 0);
+                const share = lines.length / history.lines.length;
+                add(contributor, BLAME_WEIGHT * weight / history.lines.length, share,
+                    `wrote ${Math.round(share * 100)}% of changed lines in ${history.file}`);
+            }
+
+            for (const [contributor, commits] of this.groupByEmail(history.commits)) {
+                const weight = commits.reduce((total, commit) => total + this.getRecencyWeight(commit.time, now), 0);
+                // Prefer blame as the reason, it is about the exact lines being changed
+                add(contributor, LOG_WEIGHT * weight / history.commits.length, commits.length / history.commits.length / 2,
+                    `made ${commits.length} of the last ${history.commits.length} commits to ${history.file}`);
+            }
+        }
+
+        return Array.from(candidates.values())
+            .sort((a, b) => b.score - a.score)
+            .map(({ reasonScore, ...candidate }) => candidate);
+    }
+
+    /**
+     * Returns the old-side line ranges of the hunks in a zero-context diff, leaving out pure additions
+     */
+    parseHunks(diff: string): { start: number; count: number }[] {
+        const hunks: { start: number; count: number }[] = [];
+        for (const match of diff.matchAll(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/gm)) {
+            const count = match[2] === undefined ? 1 : Number(match[2]);
+            if (count > 0) {
+                hunks.push({ start: Number(match[1]), count });
+            }
+        }
+        return hunks;
+    }
+
+    private getRecencyWeight(time: number, now: number): number {
+        const ageDays = Math.max(0, now - time) / 86400;
+        return Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+    }
+
+    private groupByEmail(contributions: Contribution[]): Map<Contribution, Contribution[]> {
+        const groups = new Map<string, Contribution[]>();
+        for (const contribution of contributions) {
+            const key = contribution.email.toLowerCase();
+            groups.set(key, [...(groups.get(key) || []), contribution]);
+        }
+        return new Map(Array.from(groups.values(), group => [group[0], group]));
+    }
+
+    private async blameChangedLines(repositoryPath: string, baseRef: string, file: string): Promise<Contribution[]> {
+        const diff = await this.git(repositoryPath, ['diff', '-U0', '--no-color', `${baseRef}...HEAD`, '--', file]);
+        const ranges = this.parseHunks(diff).flatMap(hunk => ['-L', `${hunk.start},+${hunk.count}`]);
+        if (ranges.length === 0) {
+            return [];
+        }
+
+        const output = await this.git(repositoryPath, ['blame', '--line-porcelain', ...ranges, baseRef, '--', file]);
+        const lines: Contribution[] = [];
+        let current: Partial<Contribution> = {};
+        for (const line of output.split('\n')) {
+            if (line.startsWith('author ')) {
+                current.name = line.slice('author '.length);
+            } else if (line.startsWith('author-mail ')) {
+                current.email = line.slice('author-mail '.length).replace(/^<|>$/g, '');
+            } else if (line.startsWith('author-time ')) {
+                current.time = Number(line.slice('author-time '.length));
+            } else if (line.startsWith('\t')) {
+                // The line's content ends each porcelain entry
+                lines.push(current as Contribution);
+                current = {};
+            }
+        }
+        return lines.filter(line => line.email && line.email !== 'not.committed.yet');
+    }
+
+    private async getFileCommits(repositoryPath: string, baseRef: string, file: string): Promise<Contribution[]> {
+        const output = await this.git(repositoryPath, ['log', `-n${COMMITS_PER_FILE}`, '--no-merges', '--format=%an%x09%ae%x09%at', baseRef, '--', file]);
+        return output.split('\n')
+            .filter(line => line.trim().length > 0)
+            .map(line => {
+                const [name, email, time] = line.split('\t');
+                return { name, email, time: Number(time) };
+            });
+    }
+
+    /**
+     * Names the candidate the way the platform lists reviewers: by email, name or GitHub login
+     */
+    private toReviewer(candidate: ReviewerCandidate, availableReviewers: string[]): string {
+        const email = candidate.email.toLowerCase();
+        const login = email.match(/^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/)?.[1];
+        const names = [email, candidate.name.toLowerCase(), login, email.split('@')[0]].filter(name => name);
+
+        return availableReviewers.find(reviewer => names.includes(reviewer.toLowerCase())) || login || candidate.email;
+    }
+
+    private async getGitConfig(repositoryPath: string, key: string): Promise<string> {
+        try {
+            return (await this.git(repositoryPath, ['config', key])).trim();
+        } catch (error) {
+            return '';
+        }
+    }
+
+    private async git(repositoryPath: string, args: string[]): Promise<string> {
+        const { stdout } = await execFile('git', args, { cwd: repositoryPath, maxBuffer: 10 * 1024 * 1024 });
+        return stdout;
+    }
+}
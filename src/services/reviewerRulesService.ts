@@ -0,0 +1,124 @@
+import { CodeOwnersService } from './codeOwnersService';
+import { TargetBranchService } from './targetBranchService';
+
+/**
+ * Adds reviewers to pull requests that meet all of the rule's conditions; a rule without conditions always applies
+ */
+export interface ReviewerRule {
+    // gitignore-style patterns, at least one changed file must match one of them
+    paths?: string[];
+    // Target branch globs, e.g. "release/*"
+    targetBranches?: string[];
+    // At least one of these labels must be set, compared case-insensitively
+    labels?: string[];
+    // Group names and individual reviewers
+    reviewers: string[];
+    required?: boolean;
+}
+
+/**
+ * The "smartPrCreator.reviewerRules" setting
+ */
+export interface ReviewerRulesSettings {
+    // Named reviewer groups, e.g. { "backend-core": ["alice", "bob@example.com"] }
+    groups?: { [group: string]: string[] };
+    rules?: ReviewerRule[];
+}
+
+/**
+ * What the rules are matched against
+ */
+export interface ReviewerRulesContext {
+    files: string[];
+    targetBranch: string;
+    labels: string[];
+}
+
+/**
+ * A reviewer added by the rules
+ */
+export interface RuleReviewer {
+    name: string;
+    // Required when any matching rule that adds the reviewer is
+    required: boolean;
+    // Groups or rules the reviewer comes from, e.g. "backend-core (src/api/**)"
+    reason: string;
+}
+
+/**
+ * Applies the "smartPrCreator.reviewerRules" setting: path, target branch and label rules that add reviewer groups
+ */
+export class ReviewerRulesService {
+    private readonly codeOwnersService = new CodeOwnersService();
+    private readonly targetBranchService = new TargetBranchService();
+
+    constructor(private readonly settings: ReviewerRulesSettings = {}) {}
+
+    /**
+     * Returns the reviewers of every matching rule with groups expanded, in rule order and without duplicates
+     */
+    resolve(context: ReviewerRulesContext): RuleReviewer[] {
+        const reviewers = new Map<string, RuleReviewer>();
+
+        for (const rule of this.settings.rules || []) {
+            const condition = this.match(rule, context);
+            if (condition === undefined) {
+                continue;
+            }
+
+            for (const entry of rule.reviewers || []) {
+                const group = this.settings.groups?.[entry];
+                const source = condition ? `${group ? entry : 'rule'} (${condition})` : group ? entry : 'rule';
+
+                for (const member of group || [entry]) {
+                    const name = member.replace(/^@/, '');
+                    const existing = reviewers.get(name.toLowerCase());
+                    if (existing) {
+                        existing.required = existing.required || !!rule.required;
+                        if (!existing.reason.split(', ').includes(source)) {
+                            existing.reason += `, ${source}`;
+                        }
+                    } else {
+                        reviewers.set(name.toLowerCase(), { name, required: !!rule.required, reason: source });
+                    }
+                }
+            }
+        }
+
+        return Array.from(reviewers.values());
+    }
+
+    /**
+     * Returns what made the rule match, e.g. "src/api/**, label security", or undefined when it does not match
+     */
+    private match(rule: ReviewerRule, context: ReviewerRulesContext): string | undefined {
+        const matched: string[] = [];
+
+        if (rule.paths && rule.paths.length > 0) {
+            const path = rule.paths.find(pattern => context.files.some(file => this.codeOwnersService.matches(pattern, file)));
+            if (!path) {
+                return undefined;
+            }
+            matched.push(path);
+        }
+
+        if (rule.targetBranches && rule.targetBranches.length > 0) {
+            const branch = rule.targetBranches.find(pattern => this.targetBranchService.matchesGlob(context.targetBranch, pattern));
+            if (!branch) {
+                return undefined;
+            }
+            matched.push(`target ${branch}`);
+        }
+
+        if (rule.labels && rule.labels.length > 0) {
+            const labels = context.labels.map(label => label.toLowerCase());
+            const label = rule.labels.find(candidate => labels.includes(candidate.toLowerCase()));
+            if (!label) {
+                return undefined;
+            }
+            matched.push(`label ${label}`);
+        }
+
+        return matched.join(', ');
+    }
+}
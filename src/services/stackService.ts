@@ -0,0 +1,133 @@
+import * as cp from 'child_process';
+import { promisify } from 'util';
+
+const exec = promisify(cp.exec);
+
+export interface StackedBranch {
+    branch: string;
+    // Branch the pull request targets, and the ref its commits are compared against
+    parent: string;
+    parentRef: string;
+}
+
+const STACK_SECTION_START = '<!-- smart-pr-creator:stack -->';
+const STACK_SECTION_END = '<!-- /smart-pr-creator:stack -->';
+
+/**
+ * Detects chains of dependent local branches and keeps the stack navigation in PR descriptions current
+ */
+export class StackService {
+    /**
+     * Returns the branches stacked on top of the base branch that contain, or are contained in,
+     * the current branch, ordered from the bottom of the stack to the top
+     */
+    async getBranchStack(workspaceFolder: string, baseBranch: string, currentBranch: string): Promise<StackedBranch[]> {
+        const { stdout } = await exec('git for-each-ref --format="%(refname:short)" refs/heads', { cwd: workspaceFolder });
+        const branches = stdout.trim().split('\n').filter(branch => branch.length > 0 && branch !== baseBranch);
+
+        // Compare against the remote base when there is one, a stale local base would pull merged work into the stack
+        const baseRef = await this.refExists(workspaceFolder, `origin/${baseBranch}`) ? `origin/${baseBranch}` : baseBranch;
+
+        // Keep branches on the same line of history as the current branch that are not merged into the base yet
+        const candidates: Array<{ branch: string; ahead: number }> = [];
+        for (const branch of branches) {
+            const related = branch === currentBranch ||
+                await this.isAncestor(workspaceFolder, branch, currentBranch) ||
+                await this.isAncestor(workspaceFolder, currentBranch, branch);
+            if (!related) {
+                continue;
+            }
+
+            const ahead = await this.countCommits(workspaceFolder, baseRef, branch);
+            if (ahead > 0) {
+                candidates.push({ branch, ahead });
+            }
+        }
+
+        // Prefer the current branch when several branches point at the same commit
+        candidates.sort((a, b) => a.ahead - b.ahead || Number(b.branch === currentBranch) - Number(a.branch === currentBranch));
+
+        // Branches pointing at the same commit, or forking above the current branch, break the chain
+        const stack: StackedBranch[] = [];
+        let previous: { branch: string; ahead: number } | undefined;
+        for (const candidate of candidates) {
+            if (previous && (candidate.ahead === previous.ahead || !await this.isAncestor(workspaceFolder, previous.branch, candidate.branch))) {
+                continue;
+            }
+
+            stack.push({
+                branch: candidate.branch,
+                parent: previous ? previous.branch : baseBranch,
+                parentRef: previous ? previous.branch : baseRef
+            });
+            previous = candidate;
+        }
+
+        return stack;
+    }
+
+    /**
+     * Lists the commits a branch adds on top of its parent as one-line summaries
+     */
+    async getStackCommits(workspaceFolder: string, parent: string, branch: string): Promise<string[]> {
+        const { stdout } = await exec(`git log --oneline "${parent}..${branch}"`, { cwd: workspaceFolder });
+        return stdout.trim().split('\n').filter(line => line.length > 0);
+    }
+
+    async getStackChangedFiles(workspaceFolder: string, parent: string, branch: string): Promise<string[]> {
+        const { stdout } = await exec(`git diff --name-only "${parent}...${branch}"`, { cwd: workspaceFolder });
+        return stdout.trim().split('\n').filter(line => line.length > 0);
+    }
+
+    /**
+     * Builds the navigation section, e.g. "Part 2 of 3, depends on #123"
+     */
+    getStackSection(part: number, total: number, dependsOn?: number): string {
+        const dependency = dependsOn !== undefined ? `, depends on #${dependsOn}` : '';
+        return `${STACK_SECTION_START}\n📚 **Stacked PR:** Part ${part} of ${total}${dependency}\n${STACK_SECTION_END}`;
+    }
+
+    /**
+     * Puts the navigation section at the top of a description, replacing any previous one
+     */
+    applyStackSection(description: string, section: string): string {
+        return `${section}\n\n${this.removeStackSection(description)}`;
+    }
+
+    removeStackSection(description: string): string {
+        const start = description.indexOf(STACK_SECTION_START);
+        const end = description.indexOf(STACK_SECTION_END);
+        if (start === -1 || end === -1) {
+            return description;
+        }
+
+        return (description.slice(0, start) + description.slice(end + STACK_SECTION_END.length)).trim();
+    }
+
+    private async isAncestor(workspaceFolder: string, ancestor: string, descendant: string): Promise<boolean> {
+        try {
+            await exec(`git merge-base --is-ancestor "${ancestor}" "${descendant}"`, { cwd: workspaceFolder });
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private async refExists(workspaceFolder: string, ref: string): Promise<boolean> {
+        try {
+            await exec(`git rev-parse --verify --quiet "${ref}"`, { cwd: workspaceFolder });
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private async countCommits(workspaceFolder: string, from: string, to: string): Promise<number> {
+        try {
+            const { stdout } = await exec(`git rev-list --count "${from}..${to}"`, { cwd: workspaceFolder });
+            return parseInt(stdout.trim(), 10) || 0;
+        } catch (error) {
+            return 0;
+        }
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Maps source branch globs to the branches their pull requests target, e.g. { "feature/*": "develop" }.
+ * Targets may be globs themselves, which resolve to the matching remote branches.
+ */
+export interface TargetBranchRules {
+    [sourcePattern: string]: string | string[];
+}
+
+// Offered when the remote branches are not known, e.g. before the first fetch
+const COMMON_TARGETS = ['main', 'master', 'develop', 'development', 'dev'];
+
+/**
+ * Infers and orders the branches a pull request can target
+ */
+export class TargetBranchService {
+    /**
+     * Returns the targets of the first rule matching the source branch, in rule order.
+     * Glob targets expand to the matching remote branches, most recently updated first.
+     */
+    inferTargets(sourceBranch: string, rules: TargetBranchRules, remoteBranches: string[]): string[] {
+        const rule = Object.entries(rules).find(([pattern]) => this.matchesGlob(sourceBranch, pattern));
+        if (!rule) {
+            return [];
+        }
+
+        const targets = Array.isArray(rule[1]) ? rule[1] : [rule[1]];
+        return this.unique(targets.flatMap(target => /[*?]/.test(target)
+            ? remoteBranches.filter(branch => branch !== sourceBranch && this.matchesGlob(branch, target))
+            : [target]
+        ));
+    }
+
+    /**
+     * Orders target candidates: inferred targets, then the default branches, then the other remote branches
+     * by how recently they were updated. Defaults that do not exist on the remote are left out.
+     */
+    orderCandidates(sourceBranch: string, inferred: string[], defaults: string[], remoteBranches: string[]): string[] {
+        const known = remoteBranches.length > 0 ? remoteBranches : COMMON_TARGETS;
+        return this.unique([
+            ...inferred,
+            ...defaults.filter(branch => known.includes(branch)),
+            ...known
+        ]).filter(branch => branch !== sourceBranch);
+    }
+
+    /**
+     * Matches a branch name against a glob where "*" stays within one path segment and "**" spans segments
+     */
+    matchesGlob(branch: string, pattern: string): boolean {
+        const source = pattern
+            .split('**')
+            .map(part => part
+                .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+                .replace(/\*/g, '[^/]*')
+                .replace(/\?/g, '[^/]'))
+            .join('.*');
+
+        return new RegExp(`^${source}$`).test(branch);
+    }
+
+    private unique(branches: string[]): string[] {
+        return branches.filter((branch, index) => branches.indexOf(branch) === index);
+    }
+}
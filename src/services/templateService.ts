@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface PRTemplate {
+    name: string;
+    path: string;
+    content: string;
+}
+
+// Single-template locations used by GitHub, Azure DevOps, Gitea and Bitbucket, relative to the repository root
+const TEMPLATE_FILES = [
+    '.github/pull_request_template.md',
+    'pull_request_template.md',
+    'docs/pull_request_template.md',
+    '.azuredevops/pull_request_template.md',
+    '.vsts/pull_request_template.md',
+    '.gitea/pull_request_template.md'
+];
+
+// Directories holding several templates to choose from
+const TEMPLATE_DIRECTORIES = [
+    '.github/PULL_REQUEST_TEMPLATE',
+    '.azuredevops/pull_request_template',
+    '.gitlab/merge_request_templates'
+];
+
+/**
+ * Discovers the repository's pull request templates and fills them in
+ */
+export class TemplateService {
+    async findTemplates(repositoryPath: string): Promise<PRTemplate[]> {
+        const templates: PRTemplate[] = [];
+
+        for (const file of TEMPLATE_FILES) {
+            const templatePath = await this.findCaseInsensitive(repositoryPath, file);
+            if (templatePath) {
+                templates.push(await this.readTemplate(repositoryPath, templatePath));
+            }
+        }
+
+        for (const directory of TEMPLATE_DIRECTORIES) {
+            const directoryPath = await this.findCaseInsensitive(repositoryPath, directory);
+            if (!directoryPath) {
+                continue;
+            }
+
+            const entries = await fs.promises.readdir(directoryPath, { withFileTypes: true });
+            for (const entry of entries.filter(entry => entry.isFile() && /\.(md|txt)$/i.test(entry.name))) {
+                templates.push(await this.readTemplate(repositoryPath, path.join(directoryPath, entry.name)));
+            }
+        }
+
+        return templates;
+    }
+
+    /**
+     * Asks which template to use when there are several. Returns undefined for no template.
+     */
+    async pickTemplate(templates: PRTemplate[]): Promise<PRTemplate | undefined> {
+        if (templates.length <= 1) {
+            return templates[0];
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            [
+                ...templates.map(template => ({ label: template.name, description: template.path, template })),
+                { label: 'No Template', description: 'Use the generated layout', template: undefined }
+            ],
+            {
+                placeHolder: 'Select a pull request template',
+                title: 'Pull Request Template'
+            }
+        );
+
+        return picked?.template;
+    }
+
+    /**
+     * Fills a template without AI: commits go into the summary/description section and changed files
+     * into the changes section, everything else (including checklists) is kept as written
+     */
+    fillTemplate(template: string, commits: string[], changedFiles: string[]): string {
+        const commitList = commits.slice(0, 10).map(commit => `- ${commit.replace(/^[a-f0-9]{7,40}\s+/, '')}`).join('\n');
+        const fileSummary = changedFiles.length > 0 ? `**Files changed:** ${changedFiles.length} file(s)` : '';
+
+        const sections = this.splitSections(template);
+        const summary = sections.find(section => /summary|description|what|overview|purpose|context/i.test(section.heading));
+        const changes = sections.find(section => section !== summary && /changes|what changed|details/i.test(section.heading));
+
+        if (!summary && !changes) {
+            return [commitList, fileSummary, template.trim()].filter(part => part).join('\n\n');
+        }
+
+        if (summary) {
+            summary.body = this.fillSection(summary.body, summary === changes ? `${commitList}\n\n${fileSummary}` : commitList);
+        }
+        if (changes) {
+            changes.body = this.fillSection(changes.body, summary ? fileSummary || commitList : `${commitList}\n\n${fileSummary}`);
+        }
+
+        return sections.map(section => section.heading + section.body).join('').trim();
+    }
+
+    /**
+     * Splits Markdown into sections that start at each heading; text before the first heading has an empty heading
+     */
+    private splitSections(markdown: string): Array<{ heading: string; body: string }> {
+        const sections: Array<{ heading: string; body: string }> = [];
+        const headingPattern = /^#{1,6}\s+.*$\n?/gm;
+        let lastIndex = 0;
+        let heading = '';
+        let match: RegExpExecArray | null;
+
+        while ((match = headingPattern.exec(markdown)) !== null) {
+            sections.push({ heading, body: markdown.slice(lastIndex, match.index) });
+            heading = match[0].endsWith('\n') ? match[0] : `${match[0]}\n`;
+            lastIndex = match.index + match[0].length;
+        }
+        sections.push({ heading, body: markdown.slice(lastIndex) });
+
+        return sections.filter(section => section.heading || section.body.trim());
+    }
+
+    /**
+     * Adds content to a section, replacing it when the section only holds placeholder comments
+     */
+    private fillSection(body: string, content: string): string {
+        if (!content.trim()) {
+            return body;
+        }
+
+        const withoutComments = body.replace(/<!--[\s\S]*?-->/g, '').trim();
+        if (!withoutComments) {
+            return `${content.trim()}\n\n`;
+        }
+
+        return `${content.trim()}\n\n${body.replace(/^\n+/, '')}`;
+    }
+
+    private async readTemplate(repositoryPath: string, templatePath: string): Promise<PRTemplate> {
+        const relativePath = path.relative(repositoryPath, templatePath).split(path.sep).join('/');
+        return {
+            name: path.basename(templatePath).replace(/\.(md|txt)$/i, ''),
+            path: relativePath,
+            content: await fs.promises.readFile(templatePath, 'utf8')
+        };
+    }
+
+    /**
+     * Resolves a relative path segment by segment, ignoring case as GitHub does for template names
+     */
+    private async findCaseInsensitive(root: string, relativePath: string): Promise<string | null> {
+        let current = root;
+        for (const segment of relativePath.split('/')) {
+            let entries: string[];
+            try {
+                entries = await fs.promises.readdir(current);
+            } catch (error) {
+                return null;
+            }
+
+            const match = entries.find(entry => entry.toLowerCase() === segment.toLowerCase());
+            if (!match) {
+                return null;
+            }
+            current = path.join(current, match);
+        }
+
+        return current;
+    }
+}
@@ -0,0 +1,223 @@
+import { GitPlatform } from './gitService';
+
+export type TicketTracker = 'azure-boards' | 'jira' | 'github' | 'gitlab';
+
+/**
+ * A ticket mentioned in the branch name or a commit
+ */
+export interface TicketReference {
+    tracker: TicketTracker;
+    // Work item or issue number, or the Jira key
+    id: string;
+    // How the ticket is written in titles and descriptions, e.g. "AB#123", "PAY-431" or "#42"
+    key: string;
+    // Whether a commit said the pull request closes it, e.g. "Fixes #42"
+    closes?: boolean;
+}
+
+/**
+ * The "smartPrCreator.tickets" setting
+ */
+export interface TicketSettings {
+    // Trackers to look for; the platform's own tracker, and Jira when jiraProjectKeys is set, when empty
+    trackers?: TicketTracker[];
+    // Only these Jira projects count, which also allows lower case keys in branch names.
+    // Without them, Jira keys are only looked for when "jira" is listed in trackers.
+    jiraProjectKeys?: string[];
+    // Jira site the keys link to, e.g. https://example.atlassian.net
+    jiraUrl?: string;
+}
+
+const PLATFORM_TRACKERS: { [platform: string]: TicketTracker } = {
+    'azure-devops': 'azure-boards',
+    github: 'github',
+    gitlab: 'gitlab'
+};
+
+// Keywords that close an issue when they precede it, e.g. "Fixes #42" or "resolved: #42"
+const CLOSING_KEYWORD = /\b(?:close[sd]?|closing|fix(?:e[sd])?|fixing|resolve[sd]?|resolving|implement(?:s|ed)?)\b:?\s*$/i;
+
+// Standards and encodings that look like Jira keys, e.g. UTF-8 or SHA-256
+const NOT_JIRA_PROJECTS = ['UTF', 'ISO', 'SHA', 'RFC', 'CVE', 'TLS', 'SSL', 'HTTP', 'PR', 'MR'];
+
+const RELATED_TICKETS_HEADING = '## Related Tickets';
+
+/**
+ * Finds ticket references for Azure Boards (AB#123), Jira (PAY-431), and GitHub or GitLab issues (#42)
+ * in branch names and commit messages
+ */
+export class TicketService {
+    private readonly trackers: TicketTracker[];
+
+    constructor(private readonly platform: GitPlatform, private readonly settings: TicketSettings = {}) {
+        this.trackers = settings.trackers && settings.trackers.length > 0
+            ? settings.trackers
+            : [
+                ...(PLATFORM_TRACKERS[platform] ? [PLATFORM_TRACKERS[platform]] : []),
+                ...(settings.jiraProjectKeys?.length ? ['jira' as const] : [])
+            ];
+    }
+
+    /**
+     * Returns the tickets referenced by the branch name and the commits, branch name first, without duplicates.
+     * A ticket closes when any commit mentions it with a closing keyword.
+     */
+    extract(branchName: string, commitMessages: string[]): TicketReference[] {
+        const references = [
+            ...this.extractFromBranch(branchName),
+            ...commitMessages.flatMap(message => this.extractFromText(message))
+        ];
+
+        return references
+            .filter((reference, index) =>
+                references.findIndex(other => other.tracker === reference.tracker && other.id === reference.id) === index
+            )
+            .map(reference => references.some(other => other.tracker === reference.tracker && other.id === reference.id && other.closes)
+                ? { ...reference, closes: true }
+                : reference
+            );
+    }
+
+    /**
+     * IDs to link to the pull request: Azure Boards work items on Azure DevOps, and on GitLab the issues
+     * a commit said it closes
+     */
+    getLinkedWorkItems(references: TicketReference[]): string[] {
+        return references.filter(reference => this.isLinked(reference)).map(reference => reference.id);
+    }
+
+    /**
+     * Adds a "Related Tickets" section for the tickets that are not linked as work items.
+     * Issues a commit said it closes are written as "Closes #42" so they close when the pull request is merged,
+     * the others as "Related to #42".
+     */
+    appendRelatedTickets(description: string, references: TicketReference[]): string {
+        const lines = references
+            .filter(reference => !this.isLinked(reference))
+            .map(reference => `- ${this.formatReference(reference)}`);
+
+        if (lines.length === 0 || description.includes(RELATED_TICKETS_HEADING)) {
+            return description;
+        }
+
+        return `${description.trimEnd()}\n\n${RELATED_TICKETS_HEADING}\n${lines.join('\n')}\n`;
+    }
+
+    private extractFromText(text: string): TicketReference[] {
+        const references: TicketReference[] = [];
+
+        if (this.trackers.includes('azure-boards')) {
+            for (const match of text.matchAll(/\bAB#(\d+)\b/g)) {
+                references.push(this.createReference('azure-boards', match[1]));
+            }
+        }
+
+        if (this.trackers.includes('jira')) {
+            for (const match of text.matchAll(/\b([A-Z][A-Z0-9]{1,9})-(\d+)\b/g)) {
+                if (this.isJiraProject(match[1])) {
+                    references.push(this.createReference('jira', `${match[1]}-${match[2]}`));
+                }
+            }
+        }
+
+        if (this.trackers.includes('github')) {
+            for (const match of text.matchAll(/\bGH-(\d+)\b/g)) {
+                references.push(this.createReference('github', match[1], this.followsClosingKeyword(text, match.index)));
+            }
+        }
+
+        const numberTracker = this.getNumberTracker();
+        if (numberTracker) {
+            // "#42" on its own, not "AB#42" or "owner/repo#42"
+            for (const match of text.matchAll(/(?:^|[^\w/#])#(\d+)\b/g)) {
+                const closes = numberTracker !== 'azure-boards' && this.followsClosingKeyword(text, match.index + match[0].indexOf('#'));
+                references.push(this.createReference(numberTracker, match[1], closes));
+            }
+        }
+
+        return references;
+    }
+
+    private extractFromBranch(branchName: string): TicketReference[] {
+        const references: TicketReference[] = [];
+
+        if (this.trackers.includes('jira')) {
+            // Branch names are often lower case, which is only safe to accept for known projects
+            const pattern = this.settings.jiraProjectKeys?.length ? /(?:^|[^A-Za-z0-9])([A-Za-z][A-Za-z0-9]{1,9})-(\d+)/g : /(?:^|[^A-Za-z0-9])([A-Z][A-Z0-9]{1,9})-(\d+)/g;
+            for (const match of branchName.matchAll(pattern)) {
+                const project = match[1].toUpperCase();
+                if (this.isJiraProject(project)) {
+                    references.push(this.createReference('jira', `${project}-${match[2]}`));
+                }
+            }
+        }
+
+        // Issue and work item numbers leading a path segment, e.g. feature/123-login
+        const numberTracker = this.getNumberTracker();
+        const number = branchName.match(/(?:^|\/)(\d+)[-_][A-Za-z]/);
+        if (numberTracker && number) {
+            references.push(this.createReference(numberTracker, number[1]));
+        }
+
+        return [...references, ...this.extractFromText(branchName).filter(reference => reference.tracker === 'azure-boards')];
+    }
+
+    /**
+     * Whether the reference at the index comes right after a closing keyword, e.g. "Fixes #42"
+     */
+    private followsClosingKeyword(text: string, index: number): boolean {
+        return CLOSING_KEYWORD.test(text.slice(0, index));
+    }
+
+    private isLinked(reference: TicketReference): boolean {
+        switch (this.platform) {
+            case 'azure-devops':
+                return reference.tracker === 'azure-boards';
+            case 'gitlab':
+                // Linked GitLab issues are closed by the merge request, so only the ones a commit closes
+                return reference.tracker === 'gitlab' && !!reference.closes;
+            default:
+                return false;
+        }
+    }
+
+    private isJiraProject(project: string): boolean {
+        const projectKeys = this.settings.jiraProjectKeys;
+        return projectKeys && projectKeys.length > 0
+            ? projectKeys.some(key => key.toUpperCase() === project)
+            : !NOT_JIRA_PROJECTS.includes(project);
+    }
+
+    /**
+     * Tracker that a bare "#123" belongs to: the issue tracker when one is used, otherwise Azure Boards
+     */
+    private getNumberTracker(): TicketTracker | undefined {
+        return this.trackers.find(tracker => tracker === 'github' || tracker === 'gitlab')
+            ?? (this.trackers.includes('azure-boards') ? 'azure-boards' : undefined);
+    }
+
+    private createReference(tracker: TicketTracker, id: string, closes = false): TicketReference {
+        switch (tracker) {
+            case 'azure-boards':
+                return { tracker, id, key: `AB#${id}` };
+            case 'jira':
+                return { tracker, id, key: id };
+            default:
+                return closes ? { tracker, id, key: `#${id}`, closes } : { tracker, id, key: `#${id}` };
+        }
+    }
+
+    private formatReference(reference: TicketReference): string {
+        switch (reference.tracker) {
+            case 'jira':
+                return this.settings.jiraUrl
+                    ? `[${reference.key}](${this.settings.jiraUrl.replace(/\/+$/, '')}/browse/${reference.key})`
+                    : reference.key;
+            case 'github':
+            case 'gitlab':
+                return `${reference.closes ? 'Closes' : 'Related to'} ${reference.key}`;
+            default:
+                return reference.key;
+        }
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * How pull request titles must be written: Conventional Commits ("feat(api): add retry"),
+ * prefixed with a ticket key ("PAY-431: Add refund endpoint") or free-form
+ */
+export type TitlePolicy = 'conventional' | 'ticket-prefix' | 'free';
+
+/**
+ * What a title is inferred from
+ */
+export interface TitleContext {
+    sourceBranch: string;
+    // Commit subjects, most recent first
+    commits: string[];
+    // Paths changed by the pull request
+    files: string[];
+    // Ticket keys found in the branch name and commits, e.g. "PAY-431" or "AB#123"
+    ticketKeys?: string[];
+}
+
+export const CONVENTIONAL_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'perf', 'test', 'build', 'ci', 'chore', 'revert'];
+
+const CONVENTIONAL_TITLE = /^(\w+)(\([^()\s]+\))?!?: \S/;
+const TICKET_PREFIX = /^\[?([A-Z][A-Z0-9]+-\d+|AB#\d+|#\d+)\]?:?\s+\S/;
+
+// Branch prefixes that name a Conventional Commits type
+const BRANCH_TYPES: { [prefix: string]: string } = {
+    feature: 'feat',
+    feat: 'feat',
+    fix: 'fix',
+    bugfix: 'fix',
+    hotfix: 'fix',
+    docs: 'docs',
+    refactor: 'refactor',
+    perf: 'perf',
+    test: 'test',
+    build: 'build',
+    ci: 'ci',
+    chore: 'chore'
+};
+
+// Directories that say nothing about the area a change belongs to
+const GENERIC_DIRECTORIES = ['src', 'lib', 'app', 'apps', 'packages', 'source', 'main', 'java', 'kotlin'];
+
+/**
+ * Validates pull request titles against the configured policy and rewrites titles to comply
+ */
+export class TitlePolicyService {
+    constructor(private readonly policy: TitlePolicy) {}
+
+    /**
+     * Returns why the title breaks the policy, or undefined when it complies
+     */
+    validate(title: string): string | undefined {
+        const trimmed = title.trim();
+        if (!trimmed) {
+            return 'Title is required';
+        }
+
+        switch (this.policy) {
+            case 'conventional': {
+                const match = trimmed.match(CONVENTIONAL_TITLE);
+                if (!match) {
+                    return 'Title must follow Conventional Commits: "type(scope): subject", e.g. "feat(api): add retry to the client"';
+                }
+                if (!CONVENTIONAL_TYPES.includes(match[1])) {
+                    return `"${match[1]}" is not a Conventional Commits type. Use one of: ${CONVENTIONAL_TYPES.join(', ')}`;
+                }
+                return undefined;
+            }
+            case 'ticket-prefix':
+                return TICKET_PREFIX.test(trimmed)
+                    ? undefined
+                    : 'Title must start with a ticket key, e.g. "PAY-431: Add refund endpoint"';
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Rewrites the title to follow the policy, inferring the type, scope and ticket key from the context.
+     * Titles that already comply, and ticket-prefix titles without a ticket key to add, are returned as they are.
+     */
+    format(title: string, context: TitleContext): string {
+        const trimmed = title.trim();
+        if (this.validate(trimmed) === undefined) {
+            return trimmed;
+        }
+
+        switch (this.policy) {
+            case 'conventional': {
+                const scope = this.inferScope(context.files);
+                return `${this.inferType(context)}${scope ? `(${scope})` : ''}: ${this.toSubject(trimmed)}`;
+            }
+            case 'ticket-prefix': {
+                const ticketKey = this.findTicketKey(context);
+                return ticketKey ? `${ticketKey}: ${trimmed}` : trimmed;
+            }
+            default:
+                return trimmed;
+        }
+    }
+
+    /**
+     * Instructions for the AI prompt, empty when titles are free-form
+     */
+    getPromptInstructions(context: TitleContext): string {
+        switch (this.policy) {
+            case 'conventional': {
+                const scope = this.inferScope(context.files);
+                return `The title must follow Conventional Commits: "type(scope): subject" where type is one of ${CONVENTIONAL_TYPES.join(', ')}, ` +
+                    `${scope ? `the scope is "${scope}"` : 'the scope is optional'}, and the subject is lower case, in the imperative mood and has no trailing period.`;
+            }
+            case 'ticket-prefix': {
+                const ticketKey = this.findTicketKey(context);
+                return ticketKey
+                    ? `The title must start with the ticket key followed by a colon, e.g. "${ticketKey}: Add refund endpoint".`
+                    : 'The title must start with the ticket key found in the branch name or commits, followed by a colon.';
+            }
+            default:
+                return '';
+        }
+    }
+
+    /**
+     * Infers the scope from the area all changed paths share, e.g. "api" for src/api/client.ts and src/api/retry.ts
+     */
+    inferScope(files: string[]): string | undefined {
+        const areas = files.map(file => {
+            const directories = file.split('/').slice(0, -1);
+            return directories.find(directory => !GENERIC_DIRECTORIES.includes(directory.toLowerCase()));
+        });
+
+        const [area] = areas;
+        if (!area || areas.some(other => other !== area)) {
+            return undefined;
+        }
+
+        return area.toLowerCase().replace(/^\./, '');
+    }
+
+    /**
+     * Infers the type from conventional commits in the range, then the branch prefix, then the changed paths
+     */
+    inferType(context: TitleContext): string {
+        const commitTypes = context.commits
+            .map(commit => commit.match(CONVENTIONAL_TITLE)?.[1])
+            .filter((type): type is string => !!type && CONVENTIONAL_TYPES.includes(type));
+        if (commitTypes.length > 0) {
+            return commitTypes.includes('feat') ? 'feat' : commitTypes[0];
+        }
+
+        const branchType = BRANCH_TYPES[context.sourceBranch.split('/')[0].toLowerCase()];
+        if (branchType) {
+            return branchType;
+        }
+
+        const { files } = context;
+        if (files.length > 0 && files.every(file => /\.(md|mdx|rst|txt)$/i.test(file) || /(^|\/)docs?\//i.test(file))) {
+            return 'docs';
+        }
+        if (files.length > 0 && files.every(file => /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$/i.test(file))) {
+            return 'test';
+        }
+        if (files.length > 0 && files.every(file => /^\.github\/workflows\/|^\.gitlab-ci\.yml$|^azure-pipelines|^bitbucket-pipelines\.yml$/i.test(file))) {
+            return 'ci';
+        }
+
+        return /^(fix|bug|resolve|correct)/i.test(context.commits[0] || '') ? 'fix' : 'feat';
+    }
+
+    /**
+     * Returns the first ticket key found for the pull request. Keys come from the configured ticket trackers only,
+     * so versions such as "NODE-20" or "UTF-8" in the branch name are never mistaken for tickets.
+     */
+    findTicketKey(context: TitleContext): string | undefined {
+        return context.ticketKeys?.[0];
+    }
+
+    private toSubject(title: string): string {
+        // Drop a prefix that is not a known type, e.g. "Feature: ..." or "WIP: ..."
+        const subject = title.replace(/^\w+(\([^()\s]+\))?!?:\s*/, '').replace(/\.+$/, '');
+
+        // Keep acronyms such as "API" as they are
+        return /^[A-Z][a-z]/.test(subject) ? subject.charAt(0).toLowerCase() + subject.slice(1) : subject;
+    }
+}
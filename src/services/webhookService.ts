@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as https from 'https';
 import * as http from 'http';
+import { DryRunService } from './dryRunService';
 
 export interface WebhookConfig {
     name: string;
@@ -14,6 +15,14 @@ export interface WebhookConfig {
 
 export type WebhookEvent = 'pr_created' | 'pr_updated' | 'pr_merged' | 'pr_closed';
 
+/**
+ * The "smartPrCreator.webhooks" setting
+ */
+export interface WebhookSettings {
+    enabled?: boolean;
+    endpoints?: Array<Partial<WebhookConfig> & { url: string }>;
+}
+
 export interface WebhookPayload {
     event: WebhookEvent;
     pullRequest: {
@@ -85,17 +94,27 @@ export class WebhookService {
     private outputChannel: vscode.OutputChannel;
     private history: WebhookHistoryItem[] = [];
 
-    constructor() {
-        this.outputChannel = vscode.window.createOutputChannel('Smart PR Creator - Webhooks');
+    /**
+     * @param dryRun When given, payloads are recorded instead of sent
+     * @param outputChannel Channel to log to; one is created when not given
+     */
+    constructor(private readonly dryRun?: DryRunService, outputChannel?: vscode.OutputChannel) {
+        this.outputChannel = outputChannel ?? vscode.window.createOutputChannel('Smart PR Creator - Webhooks');
         this.loadConfiguration();
         this.loadHistory();
     }
 
+    /**
+     * Returns a webhook service that records payloads for the dry run, logging to the same output channel
+     */
+    withDryRun(dryRun: DryRunService): WebhookService {
+        return new WebhookService(dryRun, this.outputChannel);
+    }
+
     private loadConfiguration(): void {
         try {
             const config = vscode.workspace.getConfiguration('smartPrCreator');
-            const webhookConfigs = config.get<WebhookConfig[]>('webhooks') || [];
-            this.webhooks = webhookConfigs.filter(webhook => webhook.enabled);
+            this.webhooks = this.toWebhookConfigs(config.get<WebhookSettings>('webhooks'));
             
             this.outputChannel.appendLine(`Loaded ${this.webhooks.length} webhook(s)`);
         } catch (error) {
@@ -104,6 +123,37 @@ export class WebhookService {
         }
     }
 
+    /**
+     * Returns the endpoints of the setting that receive notifications, none when webhooks are turned off.
+     * Endpoints without a platform get the one their URL belongs to.
+     */
+    toWebhookConfigs(settings: WebhookSettings | undefined): WebhookConfig[] {
+        if (!settings?.enabled) {
+            return [];
+        }
+
+        return (settings.endpoints || [])
+            .filter(endpoint => endpoint.url && endpoint.enabled !== false)
+            .map((endpoint, index) => ({
+                ...endpoint,
+                name: endpoint.name || `Webhook ${index + 1}`,
+                enabled: true,
+                events: endpoint.events || [],
+                platform: endpoint.platform || this.detectPlatform(endpoint.url)
+            }));
+    }
+
+    private detectPlatform(url: string): WebhookConfig['platform'] {
+        if (/hooks\.slack\.com/i.test(url)) {
+            return 'slack';
+        } else if (/discord(app)?\.com\/api\/webhooks/i.test(url)) {
+            return 'discord';
+        } else if (/\.office\.com|\.logic\.azure\.com|\.powerplatform\.com/i.test(url)) {
+            return 'teams';
+        }
+        return 'generic';
+    }
+
     /**
      * Load webhook history from workspace state
      */
@@ -149,15 +199,20 @@ export class WebhookService {
     }
 
     /**
-     * Send webhook notifications for PR events
+     * Sends the event to every enabled webhook subscribed to it.
+     * When the repository is given, its folder-level webhook settings are used.
      */
-    async sendWebhook(event: WebhookEvent, payload: WebhookPayload): Promise<void> {
-        const relevantWebhooks = this.webhooks.filter(webhook => 
+    async sendWebhook(event: WebhookEvent, payload: WebhookPayload, resource?: vscode.Uri): Promise<void> {
+        const webhooks = resource
+            ? this.toWebhookConfigs(vscode.workspace.getConfiguration('smartPrCreator', resource).get<WebhookSettings>('webhooks'))
+            : this.webhooks;
+        const relevantWebhooks = webhooks.filter(webhook => 
             webhook.events.includes(event)
         );
 
         if (relevantWebhooks.length === 0) {
             this.outputChannel.appendLine(`No webhooks configured for event: ${event}`);
+            this.dryRun?.warn(`No webhooks are configured for ${event}, no notifications would be sent`);
             return;
         }
 
@@ -205,6 +260,11 @@ export class WebhookService {
                         body = JSON.stringify(payload);
                 }
 
+                if (this.dryRun) {
+                    this.dryRun.recordNotification(webhook.name, webhook.platform, webhook.url, body);
+                    return;
+                }
+
                 await this.sendHttpRequest(webhook.url, body, timeout);
                 
                 const responseTime = Date.now() - startTime;
@@ -517,7 +577,8 @@ export class WebhookService {
     async addWebhook(webhook: WebhookConfig): Promise<void> {
         try {
             const config = vscode.workspace.getConfiguration('smartPrCreator');
-            const existingWebhooks = config.get<WebhookConfig[]>('webhooks') || [];
+            const settings = config.get<WebhookSettings>('webhooks') || {};
+            const existingWebhooks = [...(settings.endpoints || [])];
             
             // Check if webhook with same name already exists
             const existingIndex = existingWebhooks.findIndex(w => w.name === webhook.name);
@@ -528,7 +589,7 @@ export class WebhookService {
                 existingWebhooks.push(webhook);
             }
             
-            await config.update('webhooks', existingWebhooks, vscode.ConfigurationTarget.Workspace);
+            await config.update('webhooks', { ...settings, endpoints: existingWebhooks }, vscode.ConfigurationTarget.Workspace);
             this.loadConfiguration(); // Reload after update
             
             this.outputChannel.appendLine(`Added/updated webhook: ${webhook.name}`);
@@ -543,11 +604,11 @@ export class WebhookService {
     async removeWebhook(webhookName: string): Promise<void> {
         try {
             const config = vscode.workspace.getConfiguration('smartPrCreator');
-            const existingWebhooks = config.get<WebhookConfig[]>('webhooks') || [];
+            const settings = config.get<WebhookSettings>('webhooks') || {};
             
-            const filteredWebhooks = existingWebhooks.filter(w => w.name !== webhookName);
+            const filteredWebhooks = (settings.endpoints || []).filter(w => w.name !== webhookName);
             
-            await config.update('webhooks', filteredWebhooks, vscode.ConfigurationTarget.Workspace);
+            await config.update('webhooks', { ...settings, endpoints: filteredWebhooks }, vscode.ConfigurationTarget.Workspace);
             this.loadConfiguration(); // Reload after update
             
             this.outputChannel.appendLine(`Removed webhook: ${webhookName}`);
@@ -0,0 +1,45 @@
+import { WorkItemDetails } from './azureCliService';
+
+const HTML_ENTITIES: { [entity: string]: string } = {
+    '&nbsp;': ' ',
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'"
+};
+
+/**
+ * Prepares Azure Boards work items for linking and for the AI prompt
+ */
+export class WorkItemService {
+    /**
+     * Splits the IDs into the work items that were found, in the order of the IDs, and the ones that do not exist
+     */
+    filterExisting(ids: string[], details: WorkItemDetails[]): { workItems: WorkItemDetails[]; missing: string[] } {
+        const workItems: WorkItemDetails[] = [];
+        const missing: string[] = [];
+
+        for (const id of ids) {
+            const item = details.find(candidate => candidate.id === id);
+            if (!item) {
+                missing.push(id);
+            } else if (!workItems.includes(item)) {
+                workItems.push(item);
+            }
+        }
+
+        return { workItems, missing };
+    }
+
+    /**
+     * Turns HTML such as acceptance criteria into a single line of text
+     */
+    toPlainText(html: string): string {
+        return html
+            .replace(/<[^>]+>/g, ' ')
+            .replace(/&(?:nbsp|amp|lt|gt|quot|#39);/g, entity => HTML_ENTITIES[entity])
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+}
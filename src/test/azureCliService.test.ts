@@ -1,6 +1,9 @@
 import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { AzureCliService } from '../services/azureCliService';
+import { DryRunService } from '../services/dryRunService';
 
 suite('Azure CLI Integration Test Suite', () => {
     vscode.window.showInformationMessage('Start Azure CLI integration tests.');
@@ -110,4 +113,84 @@ suite('Azure CLI Integration Test Suite', () => {
         
         console.log(`Prerequisites validation: ${validation.success ? 'PASS' : 'FAIL'} - ${validation.message}`);
     });
+
+    test('should pass the completion options to the CLI and set a rebase merge through the REST API', async () => {
+        const dryRun = new DryRunService();
+        const repoInfo = {
+            organization: 'org',
+            organizationUrl: 'https://dev.azure.com/org',
+            project: 'Payments',
+            repository: 'api',
+            remoteUrl: 'https://dev.azure.com/org/Payments/_git/api'
+        };
+
+        await new AzureCliService(dryRun).createPullRequest(repoInfo, {
+            title: 'Add refunds',
+            description: 'Refund endpoint',
+            sourceBranch: 'feature/refunds',
+            targetBranch: 'main',
+            autoComplete: true,
+            mergeStrategy: 'rebase',
+            deleteSourceBranch: true,
+            transitionWorkItems: true,
+            mergeCommitMessage: 'Refunds (#1)'
+        }, os.tmpdir());
+
+        const commands = dryRun.getEntries().filter(entry => entry.kind === 'command');
+        assert.strictEqual(commands.length, 2);
+        assert.ok(commands[0].body!.startsWith(
+            'az repos pr create --source-branch "feature/refunds" --target-branch "main"' +
+            ' --auto-complete true --delete-source-branch true --transition-work-items true' +
+            ` --title "@${path.join(os.tmpdir(), 'title.txt')}"`
+        ));
+        assert.ok(commands[0].body!.includes(`--merge-commit-message "@${path.join(os.tmpdir(), 'merge-commit-message.txt')}"`));
+        assert.ok(!commands[0].body!.includes('--squash'));
+
+        const [invoke, body] = commands[1].body!.split('\n\n# request body\n');
+        assert.strictEqual(
+            invoke,
+            'az devops invoke --area git --resource pullRequests --http-method PATCH --api-version 7.0' +
+            ' --route-parameters project="Payments" repositoryId="api" pullRequestId=0' +
+            ` --in-file "${path.join(os.tmpdir(), 'body.json')}"`
+        );
+        assert.deepStrictEqual(JSON.parse(body), {
+            completionOptions: {
+                mergeStrategy: 'rebase',
+                deleteSourceBranch: true,
+                transitionWorkItems: true,
+                mergeCommitMessage: 'Refunds (#1)'
+            }
+        });
+    });
+
+    test('should mark required reviewers as required after the CLI creates the pull request', async () => {
+        const dryRun = new DryRunService();
+        const repoInfo = {
+            organization: 'org',
+            organizationUrl: 'https://dev.azure.com/org',
+            project: 'Payments',
+            repository: 'api',
+            remoteUrl: 'https://dev.azure.com/org/Payments/_git/api'
+        };
+
+        await new AzureCliService(dryRun).createPullRequest(repoInfo, {
+            title: 'Add refunds',
+            description: 'Refund endpoint',
+            sourceBranch: 'feature/refunds',
+            targetBranch: 'main',
+            reviewers: ['jane'],
+            requiredReviewers: ['backend-core']
+        }, os.tmpdir());
+
+        const commands = dryRun.getEntries().filter(entry => entry.kind === 'command').map(entry => entry.body!);
+        assert.strictEqual(commands.length, 2);
+        assert.ok(commands[0].includes(' --reviewers jane backend-core '));
+
+        const [invoke, body] = commands[1].split('\n\n# request body\n');
+        assert.ok(invoke.startsWith(
+            'az devops invoke --area git --resource pullRequestReviewers --http-method PUT --api-version 7.0' +
+            ' --route-parameters project="Payments" repositoryId="api" pullRequestId=0 reviewerId="<id of backend-core>"'
+        ));
+        assert.deepStrictEqual(JSON.parse(body), { vote: 0, isRequired: true });
+    });
 });
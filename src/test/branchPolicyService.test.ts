@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { BranchPolicyService, PolicyPreflightInput } from '../services/branchPolicyService';
+
+suite('BranchPolicyService Test Suite', () => {
+    let branchPolicyService: BranchPolicyService;
+
+    const input: PolicyPreflightInput = {
+        reviewers: ['alice'],
+        workItems: [],
+        files: ['src/api/client.ts'],
+        completionOptions: { mergeStrategy: 'merge' }
+    };
+
+    const configurations = [
+        { isEnabled: true, isBlocking: true, type: { id: 'fa4e907d-c16b-4a4c-9dfa-4906e5d171dd' }, settings: { minimumApproverCount: 2 } },
+        { isEnabled: true, isBlocking: true, type: { id: '40e92b44-2fe1-4dd6-b3d8-74a9c21d0c6e' }, settings: {} },
+        { isEnabled: true, isBlocking: false, type: { displayName: 'Require a merge strategy' }, settings: { allowSquash: true, allowRebase: true } },
+        { isEnabled: true, isBlocking: true, type: { displayName: 'Build' }, settings: { displayName: 'CI', filenamePatterns: ['/docs/*'] } },
+        { isEnabled: false, isBlocking: true, type: { displayName: 'Comment requirements' }, settings: {} },
+        { isEnabled: true, isBlocking: true, type: { displayName: 'File size restriction' }, settings: {} }
+    ];
+
+    setup(() => {
+        branchPolicyService = new BranchPolicyService();
+    });
+
+    test('should keep the enabled policies it knows', () => {
+        const policies = branchPolicyService.parse(configurations);
+
+        assert.deepStrictEqual(policies.map(policy => policy.type), ['minimum-reviewers', 'work-item-linking', 'merge-strategy', 'build']);
+        assert.strictEqual(policies[2].blocking, false);
+    });
+
+    test('should fail the policies the pull request breaks, with fixes', () => {
+        const checks = branchPolicyService.check(branchPolicyService.parse(configurations), input);
+
+        assert.deepStrictEqual(checks.map(check => [check.policy, check.status]), [
+            ['Minimum number of reviewers', 'fail'],
+            ['Work item linking', 'fail'],
+            ['Merge strategy', 'fail']
+        ]);
+        assert.strictEqual(checks[0].fix, 'Add at least 1 more reviewer(s)');
+        assert.strictEqual(checks[2].fix, 'Choose one of: squash, rebase');
+        assert.strictEqual(checks[2].blocking, false);
+    });
+
+    test('should count required reviewers added by the policy', () => {
+        const policies = branchPolicyService.parse([
+            ...configurations.slice(0, 1),
+            { isEnabled: true, isBlocking: true, type: { id: 'fd2167ab-b0be-447a-8ec8-39368250530e' }, settings: { requiredReviewerIds: ['id-1'] } }
+        ]);
+        const checks = branchPolicyService.check(policies, input);
+
+        assert.deepStrictEqual(checks.map(check => check.status), ['pass', 'info']);
+    });
+
+    test('should apply path-filtered policies to matching files only', () => {
+        const checks = branchPolicyService.check(branchPolicyService.parse(configurations), {
+            ...input,
+            reviewers: ['alice', 'bob'],
+            workItems: ['123'],
+            files: ['docs/guide/setup.md'],
+            completionOptions: { mergeStrategy: 'squash' }
+        });
+
+        assert.deepStrictEqual(checks.map(check => check.status), ['pass', 'pass', 'pass', 'info']);
+        assert.strictEqual(checks[3].message, '"CI" must succeed');
+    });
+});
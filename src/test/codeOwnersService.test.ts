@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { CodeOwnersService } from '../services/codeOwnersService';
+
+suite('CodeOwnersService Test Suite', () => {
+    let codeOwnersService: CodeOwnersService;
+
+    setup(() => {
+        codeOwnersService = new CodeOwnersService();
+    });
+
+    test('should match gitignore-style patterns', () => {
+        assert.ok(codeOwnersService.matches('*.js', 'src/app/index.js'));
+        assert.ok(codeOwnersService.matches('/docs/', 'docs/guide/setup.md'));
+        assert.ok(!codeOwnersService.matches('/docs/', 'src/docs/readme.md'));
+        assert.ok(codeOwnersService.matches('apps/', 'packages/apps/main.ts'));
+        assert.ok(codeOwnersService.matches('docs/*', 'docs/setup.md'));
+        assert.ok(!codeOwnersService.matches('docs/*', 'docs/build/troubleshooting.md'));
+        assert.ok(codeOwnersService.matches('**/logs', 'deploy/logs/today.log'));
+        assert.ok(codeOwnersService.matches('/src/api', 'src/api/client.ts'));
+    });
+
+    test('should let the last matching rule win', () => {
+        const rules = codeOwnersService.parse([
+            '# Default owners',
+            '*       @org/core',
+            '*.md    @docs-team',
+            '/src/api/ @alice jane@example.com',
+            '/src/api/generated/'
+        ].join('\n'));
+
+        assert.deepStrictEqual(codeOwnersService.getOwners(rules, ['README.md']), [{ name: 'docs-team', required: true }]);
+        assert.deepStrictEqual(
+            codeOwnersService.getOwners(rules, ['src/api/client.ts', 'src/api/generated/types.ts']).map(owner => owner.name),
+            ['alice', 'jane@example.com']
+        );
+    });
+
+    test('should combine GitLab sections and mark optional ones', () => {
+        const rules = codeOwnersService.parse([
+            '[Backend] @backend-leads',
+            'src/',
+            '^[Docs]',
+            '*.md @tech-writers',
+            '[Security][2]',
+            'src/auth/ @security'
+        ].join('\n'));
+
+        assert.deepStrictEqual(codeOwnersService.getOwners(rules, ['src/auth/README.md']), [
+            { name: 'backend-leads', required: true },
+            { name: 'tech-writers', required: false },
+            { name: 'security', required: true }
+        ]);
+    });
+});
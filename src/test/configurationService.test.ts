@@ -21,10 +21,24 @@ suite('ConfigurationService Test Suite', () => {
         const platform = configService.getPlatform();
         assert.ok(typeof platform === 'string');
         // Should be a valid platform or default to 'github'
-        const validPlatforms = ['github', 'azure-devops', 'gitlab'];
+        const validPlatforms = ['github', 'azure-devops', 'gitlab', 'bitbucket', 'gitea'];
         assert.ok(validPlatforms.includes(platform) || platform === 'github');
     });
 
+    test('should get Gitea hosts configuration', async () => {
+        const giteaHosts = configService.getGiteaHosts();
+        assert.ok(Array.isArray(giteaHosts));
+        giteaHosts.forEach(host => assert.ok(typeof host === 'string'));
+    });
+
+    test('should get Azure DevOps completion defaults', async () => {
+        const defaults = configService.getAzureCompletionDefaults();
+        assert.ok(typeof defaults === 'object');
+        if (defaults.mergeStrategy) {
+            assert.ok(['merge', 'squash', 'rebase', 'semi-linear'].includes(defaults.mergeStrategy));
+        }
+    });
+
     test('should get default target branch', async () => {
         const defaultTarget = configService.getDefaultTarget();
         assert.ok(typeof defaultTarget === 'string');
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { DescriptionDocumentService } from '../services/descriptionDocumentService';
+
+suite('DescriptionDocumentService Test Suite', () => {
+    let descriptionDocuments: DescriptionDocumentService;
+
+    setup(() => {
+        descriptionDocuments = new DescriptionDocumentService();
+    });
+
+    test('should read back the draft it writes', () => {
+        const draft = { title: 'Add retry to the API client', targetBranch: 'develop', description: '## Summary\n- Retries failed requests' };
+        assert.deepStrictEqual(descriptionDocuments.parse(descriptionDocuments.serialize(draft)), draft);
+    });
+
+    test('should keep colons and front matter edits', () => {
+        const draft = descriptionDocuments.parse('---\ntarget:main\ntitle: fix: handle timeouts\n---\nBody');
+        assert.strictEqual(draft.title, 'fix: handle timeouts');
+        assert.strictEqual(draft.targetBranch, 'main');
+        assert.strictEqual(draft.description, 'Body');
+    });
+
+    test('should treat a document without front matter as the description', () => {
+        const draft = descriptionDocuments.parse('Just a description\n');
+        assert.strictEqual(draft.title, '');
+        assert.strictEqual(draft.description, 'Just a description');
+    });
+});
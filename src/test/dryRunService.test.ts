@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { DRY_RUN_PR_URL, DryRunService } from '../services/dryRunService';
+
+suite('DryRunService Test Suite', () => {
+    let dryRun: DryRunService;
+
+    setup(() => {
+        dryRun = new DryRunService();
+    });
+
+    test('should record writes instead of sending them', async () => {
+        const response = await dryRun.createHttpClient().post(
+            'https://api.example.invalid/repos/owner/repo/pulls',
+            { title: 'Add retry', head: 'feature', base: 'main' },
+            { headers: { Authorization: 'token secret' } }
+        );
+
+        assert.strictEqual(response.data.html_url, DRY_RUN_PR_URL);
+
+        const [entry] = dryRun.getEntries();
+        assert.strictEqual(entry.kind, 'request');
+        assert.strictEqual(entry.title, 'POST https://api.example.invalid/repos/owner/repo/pulls');
+        assert.deepStrictEqual(JSON.parse(entry.body!), { title: 'Add retry', head: 'feature', base: 'main' });
+    });
+
+    test('should leave credentials out of the report', async () => {
+        await dryRun.createHttpClient().patch('https://api.example.invalid/pulls/1', { state: 'open' }, { headers: { Authorization: 'token secret' } });
+        assert.ok(!dryRun.renderReport('Add retry').includes('secret'));
+    });
+
+    test('should group entries by kind in the report', () => {
+        dryRun.recordCommand('git push origin feature');
+        dryRun.recordPrompt('copilot/gpt-4o', 'Describe these changes');
+        dryRun.recordNotification('Team channel', 'slack', 'https://hooks.example.invalid/1', '{"text":"PR created"}');
+        dryRun.warn('There are uncommitted changes');
+
+        const report = dryRun.renderReport('Add retry');
+        const order = ['## Warnings', '- ⚠️ There are uncommitted changes', '## Commands', 'git push origin feature', '## API Requests', '_None_', '## AI Prompts', 'Describe these changes', '## Notifications', '"text": "PR created"'];
+        const positions = order.map(text => report.indexOf(text));
+
+        assert.ok(positions.every(position => position >= 0), report);
+        assert.deepStrictEqual([...positions].sort((a, b) => a - b), positions);
+    });
+});
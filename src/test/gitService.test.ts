@@ -20,7 +20,7 @@ suite('GitService Test Suite', () => {
             if (repoInfo) {
                 assert.ok(typeof repoInfo.remoteUrl === 'string');
                 assert.ok(typeof repoInfo.rootPath === 'string');
-                assert.ok(['github', 'azure-devops', 'gitlab', 'unknown'].includes(repoInfo.platform));
+                assert.ok(['github', 'azure-devops', 'gitlab', 'bitbucket', 'gitea', 'unknown'].includes(repoInfo.platform));
             }
         } catch (error) {
             // Expected if not in a git repository
@@ -28,6 +28,16 @@ suite('GitService Test Suite', () => {
         }
     });
 
+    test('should list remotes with their platforms', async () => {
+        const remotes = await gitService.getRemotes();
+        assert.ok(Array.isArray(remotes));
+        remotes.forEach(remote => {
+            assert.ok(remote.name.length > 0);
+            assert.ok(remote.url.length > 0);
+            assert.ok(['github', 'azure-devops', 'gitlab', 'bitbucket', 'gitea', 'unknown'].includes(remote.platform));
+        });
+    });
+
     test('should handle getCurrentBranch gracefully', async () => {
         try {
             const currentBranch = await gitService.getCurrentBranch();
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { HostService } from '../services/hostService';
+
+suite('HostService Test Suite', () => {
+    let hostService: HostService;
+
+    setup(() => {
+        hostService = new HostService();
+    });
+
+    test('should extract hosts from HTTPS, SSH and scp-like remotes', () => {
+        assert.strictEqual(hostService.getRemoteHost('https://github.com/owner/repo.git'), 'github.com');
+        assert.strictEqual(hostService.getRemoteHost('https://org@dev.azure.com/org/project/_git/repo'), 'dev.azure.com');
+        assert.strictEqual(hostService.getRemoteHost('ssh://git@GitLab.Example.com:2222/group/project.git'), 'gitlab.example.com');
+        assert.strictEqual(hostService.getRemoteHost('git@bitbucket.org:workspace/repo.git'), 'bitbucket.org');
+    });
+
+    test('should detect public platforms without host mappings', () => {
+        assert.strictEqual(hostService.detectPlatform('https://github.com/owner/repo.git'), 'github');
+        assert.strictEqual(hostService.detectPlatform('https://dev.azure.com/org/project/_git/repo'), 'azure-devops');
+        assert.strictEqual(hostService.detectPlatform('https://org.visualstudio.com/project/_git/repo'), 'azure-devops');
+        assert.strictEqual(hostService.detectPlatform('git@gitlab.com:group/project.git'), 'gitlab');
+        assert.strictEqual(hostService.detectPlatform('https://bitbucket.org/workspace/repo.git'), 'bitbucket');
+        assert.strictEqual(hostService.detectPlatform('https://codeberg.org/owner/repo.git'), 'gitea');
+    });
+
+    test('should report unknown hosts as unknown', () => {
+        assert.strictEqual(hostService.detectPlatform('https://git.unmapped-host.test/owner/repo.git'), 'unknown');
+    });
+
+    test('should fall back to the default API URL for unmapped hosts', () => {
+        assert.strictEqual(
+            hostService.getApiUrl('https://git.unmapped-host.test/owner/repo.git', 'https://git.unmapped-host.test/api/v3/'),
+            'https://git.unmapped-host.test/api/v3'
+        );
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { PreCheckService } from '../services/preCheckService';
+
+suite('PreCheckService Test Suite', () => {
+    let output: string;
+    let preCheckService: PreCheckService;
+
+    setup(() => {
+        output = '';
+        preCheckService = new PreCheckService({
+            append: value => { output += value; },
+            appendLine: value => { output += `${value}\n`; },
+            show: () => undefined
+        });
+    });
+
+    test('should run every check and report each result', async () => {
+        const started: string[] = [];
+        const results = await preCheckService.run(
+            [
+                { name: 'Lint', command: 'echo linted && exit 0' },
+                { name: 'Tests', command: 'exit 3' },
+                { name: 'Empty' }
+            ],
+            os.tmpdir(),
+            check => started.push(check.name)
+        );
+
+        assert.deepStrictEqual(started, ['Lint', 'Tests', 'Empty']);
+        assert.deepStrictEqual(results.map(result => [result.name, result.passed, result.detail]), [
+            ['Lint', true, undefined],
+            ['Tests', false, 'exit code 3'],
+            ['Empty', false, 'no command or task configured']
+        ]);
+        assert.ok(output.includes('linted'));
+        assert.ok(output.includes('2 of 3 check(s) failed'));
+    });
+
+    test('should add the results to the description once', () => {
+        const results = [
+            { name: 'Lint', passed: true, durationMs: 1200 },
+            { name: 'Tests', passed: false, durationMs: 30000, detail: 'exit code 1' }
+        ];
+
+        const description = preCheckService.appendResults('## Summary\nAdds retries\n', results);
+        assert.strictEqual(description, [
+            '## Summary',
+            'Adds retries',
+            '',
+            '## Checks Run Locally',
+            '- ✅ Lint passed in 1.2s',
+            '- ❌ Tests failed (exit code 1) in 30.0s',
+            ''
+        ].join('\n'));
+        assert.strictEqual(preCheckService.appendResults(description, results), description);
+        assert.strictEqual(preCheckService.appendResults('Body', []), 'Body');
+    });
+});
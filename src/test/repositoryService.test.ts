@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RepositoryService } from '../services/repositoryService';
+
+suite('RepositoryService Test Suite', () => {
+    let repositoryService: RepositoryService;
+
+    setup(() => {
+        repositoryService = new RepositoryService();
+    });
+
+    test('should resolve the repository root from a nested path', async () => {
+        // The compiled tests live inside the extension's own repository
+        const repository = await repositoryService.getRepositoryForPath(__dirname);
+        if (!repository) {
+            return; // Not running from a git checkout
+        }
+
+        assert.ok(__dirname.startsWith(repository.rootPath));
+        assert.strictEqual(repository.name, path.basename(repository.rootPath));
+        assert.strictEqual(repository.rootUri.fsPath, repository.rootPath);
+    });
+
+    test('should return null outside of a git repository', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-pr-'));
+        try {
+            assert.strictEqual(await repositoryService.getRepositoryForPath(directory), null);
+        } finally {
+            fs.rmdirSync(directory);
+        }
+    });
+
+    test('should only treat remotes of same-named repositories of different owners as forks', () => {
+        const fork = { name: 'origin', url: 'git@github.com:me/app.git', platform: 'github' as const };
+        const upstream = { name: 'upstream', url: 'https://github.com/Team/App', platform: 'github' as const };
+        const mirror = { name: 'mirror', url: 'https://github.com/me/app.git', platform: 'github' as const };
+        const tools = { name: 'tools', url: 'https://github.com/team/tools.git', platform: 'github' as const };
+
+        assert.deepStrictEqual(repositoryService.findForkRemotes([fork, upstream, tools]), [fork, upstream]);
+        assert.deepStrictEqual(repositoryService.findForkRemotes([fork, mirror, tools]), []);
+        assert.deepStrictEqual(repositoryService.findForkRemotes([
+            { name: 'origin', url: 'https://dev.azure.com/org/me/_git/app', platform: 'azure-devops' },
+            { name: 'upstream', url: 'git@ssh.dev.azure.com:v3/org/team/app', platform: 'azure-devops' }
+        ]).map(remote => remote.name), ['origin', 'upstream']);
+    });
+
+    test('should remember the fork remotes per repository', async () => {
+        const values = new Map<string, any>();
+        const state = {
+            keys: () => [...values.keys()],
+            get: (key: string) => values.get(key),
+            update: async (key: string, value: any) => { values.set(key, value); }
+        } as vscode.Memento;
+        const remembering = new RepositoryService(state);
+
+        await remembering.rememberForkRemotes('/work/app', { base: 'upstream', head: 'origin' });
+        assert.deepStrictEqual(remembering.getForkRemotes('/work/app'), { base: 'upstream', head: 'origin' });
+        assert.strictEqual(remembering.getForkRemotes('/work/other'), undefined);
+    });
+
+    test('should list each workspace repository once', async () => {
+        const repositories = await repositoryService.listRepositories();
+        const roots = repositories.map(repository => repository.rootPath);
+        assert.strictEqual(new Set(roots).size, roots.length);
+    });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { Contribution, ReviewerRecommendationService } from '../services/reviewerRecommendationService';
+
+const DAY = 86400;
+const NOW = 1800000000;
+
+function by(name: string, daysAgo: number): Contribution {
+    return { name, email: `${name.toLowerCase()}@example.com`, time: NOW - daysAgo * DAY };
+}
+
+suite('ReviewerRecommendationService Test Suite', () => {
+    let reviewerRecommendationService: ReviewerRecommendationService;
+
+    setup(() => {
+        reviewerRecommendationService = new ReviewerRecommendationService();
+    });
+
+    test('should read the changed old-side ranges from a zero-context diff', () => {
+        const diff = [
+            'diff --git a/src/app.ts b/src/app.ts',
+            '@@ -10,3 +10,4 @@ export class App {',
+            '@@ -20 +21 @@ function start() {',
+            '@@ -30,0 +31,5 @@',
+            '@@ -40,2 +45 @@'
+        ].join('\n');
+
+        assert.deepStrictEqual(reviewerRecommendationService.parseHunks(diff), [
+            { start: 10, count: 3 },
+            { start: 20, count: 1 },
+            { start: 40, count: 2 }
+        ]);
+    });
+
+    test('should rank by share of changed lines and explain the ranking', () => {
+        const candidates = reviewerRecommendationService.rank([{
+            file: 'src/services/aiService.ts',
+            lines: [by('Alice', 10), by('Alice', 10), by('Alice', 10), by('Bob', 10)],
+            commits: [by('Bob', 5), by('Bob', 6), by('Bob', 7), by('Alice', 20)]
+        }], [], NOW);
+
+        assert.deepStrictEqual(candidates.map(candidate => candidate.name), ['Alice', 'Bob']);
+        assert.strictEqual(candidates[0].reason, 'wrote 75% of changed lines in src/services/aiService.ts');
+        assert.strictEqual(candidates[1].reason, 'made 3 of the last 4 commits to src/services/aiService.ts');
+    });
+
+    test('should prefer recent contributors', () => {
+        const candidates = reviewerRecommendationService.rank([{
+            file: 'package.json',
+            lines: [],
+            commits: [by('Alice', 720), by('Alice', 700), by('Bob', 3)]
+        }], [], NOW);
+
+        assert.strictEqual(candidates[0].name, 'Bob');
+    });
+
+    test('should exclude the pull request author', () => {
+        const candidates = reviewerRecommendationService.rank([{
+            file: 'src/app.ts',
+            lines: [by('Alice', 1), by('Bob', 1)],
+            commits: [by('Alice', 1)]
+        }], ['ALICE@example.com'], NOW);
+
+        assert.deepStrictEqual(candidates.map(candidate => candidate.name), ['Bob']);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { ReviewerRulesService } from '../services/reviewerRulesService';
+
+suite('ReviewerRulesService Test Suite', () => {
+    const settings = {
+        groups: {
+            'backend-core': ['alice', '@bob'],
+            'release-managers': ['carol']
+        },
+        rules: [
+            { paths: ['/src/api/'], reviewers: ['backend-core'], required: true },
+            { targetBranches: ['release/*'], reviewers: ['release-managers', 'alice'] },
+            { labels: ['Security'], reviewers: ['dave'] },
+            { paths: ['*.md'], targetBranches: ['main'], reviewers: ['erin'] }
+        ]
+    };
+
+    test('should expand groups for matching paths', () => {
+        const reviewers = new ReviewerRulesService(settings).resolve({ files: ['src/api/client.ts'], targetBranch: 'develop', labels: [] });
+
+        assert.deepStrictEqual(reviewers, [
+            { name: 'alice', required: true, reason: 'backend-core (/src/api/)' },
+            { name: 'bob', required: true, reason: 'backend-core (/src/api/)' }
+        ]);
+    });
+
+    test('should merge reviewers added by several rules', () => {
+        const reviewers = new ReviewerRulesService(settings).resolve({ files: ['src/api/client.ts'], targetBranch: 'release/2.0', labels: [] });
+
+        assert.deepStrictEqual(reviewers.map(reviewer => reviewer.name), ['alice', 'bob', 'carol']);
+        assert.strictEqual(reviewers[0].reason, 'backend-core (/src/api/), rule (target release/*)');
+        assert.strictEqual(reviewers[0].required, true);
+        assert.strictEqual(reviewers[2].required, false);
+    });
+
+    test('should match labels case-insensitively', () => {
+        const reviewers = new ReviewerRulesService(settings).resolve({ files: [], targetBranch: 'main', labels: ['security'] });
+
+        assert.deepStrictEqual(reviewers, [{ name: 'dave', required: false, reason: 'rule (label Security)' }]);
+    });
+
+    test('should require every condition of a rule to match', () => {
+        const service = new ReviewerRulesService(settings);
+
+        assert.deepStrictEqual(service.resolve({ files: ['README.md'], targetBranch: 'develop', labels: [] }), []);
+        assert.deepStrictEqual(service.resolve({ files: ['README.md'], targetBranch: 'main', labels: [] }).map(reviewer => reviewer.name), ['erin']);
+    });
+
+    test('should add nothing without rules', () => {
+        assert.deepStrictEqual(new ReviewerRulesService().resolve({ files: ['src/app.ts'], targetBranch: 'main', labels: [] }), []);
+    });
+});
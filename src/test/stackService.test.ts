@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { StackService } from '../services/stackService';
+
+suite('StackService Test Suite', () => {
+    let stackService: StackService;
+
+    setup(() => {
+        stackService = new StackService();
+    });
+
+    test('should describe the position of a PR in the stack', () => {
+        assert.ok(stackService.getStackSection(2, 3, 123).includes('Part 2 of 3, depends on #123'));
+        assert.ok(stackService.getStackSection(1, 3).includes('Part 1 of 3'));
+        assert.ok(!stackService.getStackSection(1, 3).includes('depends on'));
+    });
+
+    test('should put the stack section at the top of the description', () => {
+        const description = stackService.applyStackSection('Adds the API client', stackService.getStackSection(1, 2));
+        assert.ok(description.startsWith('<!--'));
+        assert.ok(description.endsWith('Adds the API client'));
+    });
+
+    test('should replace an existing stack section instead of adding another', () => {
+        const first = stackService.applyStackSection('Body', stackService.getStackSection(2, 2, 10));
+        const second = stackService.applyStackSection(first, stackService.getStackSection(2, 3, 11));
+
+        assert.ok(second.includes('Part 2 of 3, depends on #11'));
+        assert.ok(!second.includes('#10'));
+        assert.strictEqual(second.split('Stacked PR').length, 2);
+        assert.strictEqual(stackService.removeStackSection(second), 'Body');
+    });
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { TargetBranchService } from '../services/targetBranchService';
+
+suite('TargetBranchService Test Suite', () => {
+    let targetBranchService: TargetBranchService;
+
+    const gitFlow = {
+        'hotfix/*': ['main', 'release/*'],
+        'feature/*': 'develop',
+        'release/*': 'main'
+    };
+
+    setup(() => {
+        targetBranchService = new TargetBranchService();
+    });
+
+    test('should keep "*" within one path segment', () => {
+        assert.ok(targetBranchService.matchesGlob('feature/login', 'feature/*'));
+        assert.ok(!targetBranchService.matchesGlob('feature/auth/login', 'feature/*'));
+        assert.ok(targetBranchService.matchesGlob('feature/auth/login', 'feature/**'));
+        assert.ok(!targetBranchService.matchesGlob('my-feature/login', 'feature/*'));
+    });
+
+    test('should infer targets from the first matching rule', () => {
+        assert.deepStrictEqual(targetBranchService.inferTargets('feature/login', gitFlow, []), ['develop']);
+        assert.deepStrictEqual(targetBranchService.inferTargets('bugfix/login', gitFlow, []), []);
+    });
+
+    test('should resolve glob targets to remote branches', () => {
+        const remoteBranches = ['release/2.1', 'develop', 'release/2.0', 'main'];
+        assert.deepStrictEqual(
+            targetBranchService.inferTargets('hotfix/crash', gitFlow, remoteBranches),
+            ['main', 'release/2.1', 'release/2.0']
+        );
+    });
+
+    test('should order inferred targets, defaults, then remote branches', () => {
+        const remoteBranches = ['feature/login', 'feature/search', 'develop', 'main'];
+        assert.deepStrictEqual(
+            targetBranchService.orderCandidates('feature/login', ['develop'], ['main', 'trunk'], remoteBranches),
+            ['develop', 'main', 'feature/search']
+        );
+    });
+
+    test('should fall back to common branch names without remote branches', () => {
+        assert.deepStrictEqual(
+            targetBranchService.orderCandidates('feature/login', [], ['develop'], []),
+            ['develop', 'main', 'master', 'development', 'dev']
+        );
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateService } from '../services/templateService';
+
+suite('TemplateService Test Suite', () => {
+    let templateService: TemplateService;
+    let repositoryPath: string;
+
+    setup(() => {
+        templateService = new TemplateService();
+        repositoryPath = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-pr-templates-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(repositoryPath, { recursive: true, force: true });
+    });
+
+    test('should find single and multiple templates regardless of case', async () => {
+        fs.mkdirSync(path.join(repositoryPath, '.github', 'PULL_REQUEST_TEMPLATE'), { recursive: true });
+        fs.writeFileSync(path.join(repositoryPath, '.github', 'PULL_REQUEST_TEMPLATE.md'), '## Summary\n');
+        fs.writeFileSync(path.join(repositoryPath, '.github', 'PULL_REQUEST_TEMPLATE', 'bugfix.md'), '## Bug\n');
+        fs.mkdirSync(path.join(repositoryPath, '.gitlab', 'merge_request_templates'), { recursive: true });
+        fs.writeFileSync(path.join(repositoryPath, '.gitlab', 'merge_request_templates', 'Feature.md'), '## Feature\n');
+
+        const templates = await templateService.findTemplates(repositoryPath);
+        const paths = templates.map(template => template.path).sort();
+
+        assert.deepStrictEqual(paths, [
+            '.github/PULL_REQUEST_TEMPLATE.md',
+            '.github/PULL_REQUEST_TEMPLATE/bugfix.md',
+            '.gitlab/merge_request_templates/Feature.md'
+        ]);
+        assert.strictEqual(templates.find(template => template.name === 'bugfix')?.content, '## Bug\n');
+    });
+
+    test('should return no templates when the repository has none', async () => {
+        assert.deepStrictEqual(await templateService.findTemplates(repositoryPath), []);
+    });
+
+    test('should fill the summary section and keep the checklist', () => {
+        const template = '## Summary\n<!-- Describe your change -->\n\n## Checklist\n- [ ] Tests added\n- [ ] Docs updated\n';
+        const filled = templateService.fillTemplate(template, ['abc1234 Add retry to the API client'], ['src/client.ts']);
+
+        assert.ok(filled.startsWith('## Summary\n- Add retry to the API client'));
+        assert.ok(!filled.includes('Describe your change'));
+        assert.ok(filled.includes('## Checklist\n- [ ] Tests added\n- [ ] Docs updated'));
+    });
+
+    test('should put the changes above a template without matching sections', () => {
+        const filled = templateService.fillTemplate('- [ ] I have read the contributing guide', ['abc1234 Fix typo'], []);
+        assert.strictEqual(filled, '- Fix typo\n\n- [ ] I have read the contributing guide');
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { TicketService } from '../services/ticketService';
+
+suite('TicketService Test Suite', () => {
+    test('should find Jira keys in the branch name and Azure Boards items in commits', () => {
+        const ticketService = new TicketService('azure-devops', { jiraProjectKeys: ['PAY'] });
+        const tickets = ticketService.extract('feature/PAY-431-refund', [
+            'Add refund endpoint\n\nRelated to AB#1234',
+            'Validate refund amount (PAY-431, AB#5678)'
+        ]);
+
+        assert.deepStrictEqual(tickets.map(ticket => ticket.key), ['PAY-431', 'AB#1234', 'AB#5678']);
+        assert.deepStrictEqual(ticketService.getLinkedWorkItems(tickets), ['1234', '5678']);
+    });
+
+    test('should treat "#42" as a GitHub issue on GitHub', () => {
+        const tickets = new TicketService('github').extract('fix/42-login-crash', ['Fix login crash, see #42 and AB#7']);
+
+        assert.deepStrictEqual(tickets, [{ tracker: 'github', id: '42', key: '#42' }]);
+    });
+
+    test('should only look for Jira keys when Jira is configured', () => {
+        const tickets = new TicketService('github').extract('feature/GPT-4-prompts', ['Support PHP-8 and ES-2015']);
+        assert.deepStrictEqual(tickets, []);
+    });
+
+    test('should not mistake encodings for Jira keys', () => {
+        const tickets = new TicketService('github', { trackers: ['jira'] }).extract('main', ['Read files as UTF-8', 'Hash with SHA-256']);
+        assert.deepStrictEqual(tickets, []);
+    });
+
+    test('should only accept configured Jira projects, in any case in branch names', () => {
+        const ticketService = new TicketService('bitbucket', { jiraProjectKeys: ['PAY'] });
+        const tickets = ticketService.extract('feature/pay-431-refund', ['Update OPS-12 runbook']);
+
+        assert.deepStrictEqual(tickets.map(ticket => ticket.key), ['PAY-431']);
+    });
+
+    test('should list unlinked tickets in the description', () => {
+        const ticketService = new TicketService('github', { jiraProjectKeys: ['PAY'], jiraUrl: 'https://example.atlassian.net/' });
+        const tickets = ticketService.extract('feature/PAY-431-refund', ['Fix rounding, closes #42']);
+        const description = ticketService.appendRelatedTickets('## Summary\nRefunds', tickets);
+
+        assert.strictEqual(description, '## Summary\nRefunds\n\n## Related Tickets\n- [PAY-431](https://example.atlassian.net/browse/PAY-431)\n- Closes #42\n');
+        assert.strictEqual(ticketService.appendRelatedTickets(description, tickets), description);
+    });
+
+    test('should only close issues a commit says it closes', () => {
+        const ticketService = new TicketService('github');
+        const tickets = ticketService.extract('fix/42-login-crash', ['Refactor session handling, see #7', 'Fixes #9', 'Mention #9 again']);
+
+        assert.deepStrictEqual(tickets.map(ticket => [ticket.key, !!ticket.closes]), [['#42', false], ['#7', false], ['#9', true]]);
+        assert.strictEqual(
+            ticketService.appendRelatedTickets('Body', tickets),
+            'Body\n\n## Related Tickets\n- Related to #42\n- Related to #7\n- Closes #9\n'
+        );
+    });
+
+    test('should only link the GitLab issues a commit closes', () => {
+        const ticketService = new TicketService('gitlab');
+        const tickets = ticketService.extract('12-login', ['Resolves #12', 'Refs #13']);
+
+        assert.deepStrictEqual(ticketService.getLinkedWorkItems(tickets), ['12']);
+        assert.strictEqual(ticketService.appendRelatedTickets('Body', tickets), 'Body\n\n## Related Tickets\n- Related to #13\n');
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { TitlePolicyService } from '../services/titlePolicyService';
+
+suite('TitlePolicyService Test Suite', () => {
+    const context = {
+        sourceBranch: 'feature/PAY-431-refund',
+        commits: ['Add refund endpoint', 'Validate refund amount'],
+        files: ['src/api/refunds.ts', 'src/api/client.ts']
+    };
+
+    test('should explain what is wrong with a non-conventional title', () => {
+        const conventional = new TitlePolicyService('conventional');
+
+        assert.strictEqual(conventional.validate('feat(api): add refund endpoint'), undefined);
+        assert.strictEqual(conventional.validate('fix!: drop legacy refunds'), undefined);
+        assert.ok(conventional.validate('Add refund endpoint')?.includes('Conventional Commits'));
+        assert.ok(conventional.validate('feature(api): add refund endpoint')?.includes('"feature" is not a Conventional Commits type'));
+    });
+
+    test('should rewrite titles as conventional commits with an inferred scope', () => {
+        const conventional = new TitlePolicyService('conventional');
+
+        assert.strictEqual(conventional.format('Add refund endpoint.', context), 'feat(api): add refund endpoint');
+        assert.strictEqual(conventional.format('API keys are rotated', { ...context, sourceBranch: 'hotfix/keys' }), 'fix(api): API keys are rotated');
+        assert.strictEqual(conventional.format('docs: explain refunds', context), 'docs: explain refunds');
+    });
+
+    test('should only infer a scope shared by all changed paths', () => {
+        const policy = new TitlePolicyService('conventional');
+
+        assert.strictEqual(policy.inferScope(['packages/billing/src/index.ts', 'packages/billing/README.md']), 'billing');
+        assert.strictEqual(policy.inferScope(['src/api/client.ts', 'src/ui/form.tsx']), undefined);
+        assert.strictEqual(policy.inferScope(['README.md']), undefined);
+    });
+
+    test('should prefix titles with the ticket key found for the pull request', () => {
+        const ticketPrefix = new TitlePolicyService('ticket-prefix');
+
+        assert.strictEqual(ticketPrefix.format('Add refund endpoint', { ...context, ticketKeys: ['PAY-431'] }), 'PAY-431: Add refund endpoint');
+        assert.strictEqual(ticketPrefix.validate('[PAY-431] Add refund endpoint'), undefined);
+        assert.ok(ticketPrefix.validate('Add refund endpoint'));
+    });
+
+    test('should not take version numbers for ticket keys', () => {
+        const ticketPrefix = new TitlePolicyService('ticket-prefix');
+        const upgrade = { sourceBranch: 'chore/node-20', commits: ['Read files as UTF-8'], files: ['package.json'] };
+
+        assert.strictEqual(ticketPrefix.findTicketKey(upgrade), undefined);
+        assert.strictEqual(ticketPrefix.format('Upgrade to Node 20', upgrade), 'Upgrade to Node 20');
+    });
+
+    test('should leave free-form titles alone', () => {
+        const free = new TitlePolicyService('free');
+
+        assert.strictEqual(free.validate('Add refund endpoint'), undefined);
+        assert.strictEqual(free.format('Add refund endpoint', context), 'Add refund endpoint');
+        assert.strictEqual(free.getPromptInstructions(context), '');
+    });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { DryRunService } from '../services/dryRunService';
+import { WebhookPayload, WebhookService } from '../services/webhookService';
+
+suite('WebhookService Test Suite', () => {
+    let dryRun: DryRunService;
+    let webhookService: WebhookService;
+
+    const payload: WebhookPayload = {
+        event: 'pr_created',
+        pullRequest: {
+            id: '42',
+            title: 'Add retries',
+            description: 'Retries failed requests',
+            url: 'https://github.com/owner/repo/pull/42',
+            author: 'jane',
+            sourceBranch: 'feature/retries',
+            targetBranch: 'main',
+            repository: 'owner/repo',
+            aiGenerated: false,
+            filesChanged: 2,
+            commits: 1
+        },
+        timestamp: new Date(0).toISOString(),
+        metadata: { extensionVersion: '1.0.0', workspaceFolder: os.tmpdir(), vsCodeVersion: vscode.version }
+    };
+
+    setup(() => {
+        dryRun = new DryRunService();
+        webhookService = new WebhookService(dryRun);
+    });
+
+    teardown(() => {
+        webhookService.dispose();
+    });
+
+    test('should read the endpoints of the webhooks setting', () => {
+        assert.deepStrictEqual(webhookService.toWebhookConfigs({ enabled: false, endpoints: [] }), []);
+        assert.deepStrictEqual(webhookService.toWebhookConfigs(undefined), []);
+
+        const webhooks = webhookService.toWebhookConfigs({
+            enabled: true,
+            endpoints: [
+                { name: 'Slack', url: 'https://hooks.slack.com/services/T0/B0/x', events: ['pr_created'] },
+                { name: 'Teams', url: 'https://example.webhook.office.com/webhookb2/x', events: ['pr_created'] },
+                { name: 'Paused', url: 'https://discord.com/api/webhooks/1/x', events: ['pr_created'], enabled: false },
+                { name: 'CI', url: 'https://ci.example.com/hooks/pr', events: ['pr_updated'], platform: 'discord' }
+            ]
+        });
+
+        assert.deepStrictEqual(webhooks.map(webhook => [webhook.name, webhook.platform, webhook.enabled]), [
+            ['Slack', 'slack', true],
+            ['Teams', 'teams', true],
+            ['CI', 'discord', true]
+        ]);
+    });
+
+    test('should send nothing with the default webhooks setting', async () => {
+        await webhookService.sendWebhook('pr_created', payload, vscode.Uri.file(os.tmpdir()));
+
+        assert.deepStrictEqual(dryRun.getEntries().map(entry => entry.kind), ['warning']);
+    });
+
+    test('should record for a dry run through the shared service', async () => {
+        const otherRun = new DryRunService();
+        await webhookService.withDryRun(otherRun).sendWebhook('pr_created', payload, vscode.Uri.file(os.tmpdir()));
+
+        assert.deepStrictEqual(otherRun.getEntries().map(entry => entry.kind), ['warning']);
+        assert.deepStrictEqual(dryRun.getEntries(), []);
+    });
+});
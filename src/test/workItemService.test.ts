@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { WorkItemService } from '../services/workItemService';
+
+suite('WorkItemService Test Suite', () => {
+    const workItemService = new WorkItemService();
+
+    test('should keep the work items that exist, in the order of the IDs', () => {
+        const details = [
+            { id: '7', title: 'Retry failed refunds', type: 'Task', state: 'Active' },
+            { id: '3', title: 'Refund endpoint', type: 'User Story', state: 'New' }
+        ];
+
+        const { workItems, missing } = workItemService.filterExisting(['3', '404', '7', '3'], details);
+
+        assert.deepStrictEqual(workItems.map(item => item.id), ['3', '7']);
+        assert.deepStrictEqual(missing, ['404']);
+    });
+
+    test('should turn acceptance criteria HTML into plain text', () => {
+        const html = '<div><ul><li>Refunds&nbsp;over 100 need approval</li><li>Amounts &lt;= balance &amp; in EUR</li></ul></div>';
+
+        assert.strictEqual(workItemService.toPlainText(html), 'Refunds over 100 need approval Amounts <= balance & in EUR');
+        assert.strictEqual(workItemService.toPlainText('Plain text'), 'Plain text');
+    });
+});